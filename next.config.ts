@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // pdf.js ships its own worker and must be loaded from node_modules as-is.
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;
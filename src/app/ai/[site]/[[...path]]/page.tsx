@@ -0,0 +1,30 @@
+import { notFound } from "next/navigation";
+import { resolveHostedSource } from "@/lib/mirror-source";
+import { MirrorDocument } from "../../mirror-document";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = {
+  params: Promise<{ site: string; path?: string[] }>;
+};
+
+/**
+ * Renders `https://ai.<site>/<path>`; the middleware rewrites mirror host
+ * requests here. Only paths recorded by a completed crawl of the site are
+ * mirrored, everything else is a 404.
+ */
+export default async function HostedAiMirror({ params }: Params) {
+  const { site, path = [] } = await params;
+  const siteDomain = decodeURIComponent(site).toLowerCase();
+  // Re-serialise the decoded segments the way the crawler's URLs are encoded.
+  const pathname = new URL(`/${path.join("/")}`, "https://mirror.invalid").pathname;
+
+  const source = await resolveHostedSource(siteDomain, pathname);
+
+  if (!source) {
+    notFound();
+  }
+
+  return <MirrorDocument source={source} />;
+}
@@ -0,0 +1,57 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { describe, expect, it, vi } from "vitest";
+import type { ExtractionResult } from "@/lib/extractor";
+import { JsonLdScript, MirrorDocument } from "./mirror-document";
+
+const attack = "</script><script>alert(1)</script>";
+
+const result: ExtractionResult = {
+  title: attack,
+  url: "https://example.com/post",
+  canonical: "https://example.com/post",
+  markdown: `# Post\n\n${attack}\n\n<img src="x.png" onerror="alert(2)">`,
+  metadata: { primaryTopics: [], entities: [] },
+};
+
+vi.mock("@/lib/mirror-extraction", () => ({
+  getMirrorExtraction: vi.fn(async () => ({
+    result,
+    fetchedAt: new Date(),
+    contentHash: "hash",
+    state: "fresh",
+  })),
+}));
+
+const jsonLdPayload = (html: string) =>
+  html.match(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/)?.[1];
+
+describe("JsonLdScript", () => {
+  it("keeps a </script> payload inside the JSON-LD element", () => {
+    const data = {
+      headline: "</script><script>alert(1)</script>",
+      articleBody: "a & b > c \u2028 \u2029",
+    };
+    const html = renderToStaticMarkup(createElement(JsonLdScript, { data }));
+
+    expect(html.match(/<script/g)).toHaveLength(1);
+    expect(html).not.toMatch(/[\u2028\u2029]/);
+    const payload = jsonLdPayload(html);
+    expect(payload).not.toMatch(/[<>&]/);
+    expect(JSON.parse(payload ?? "")).toEqual(data);
+  });
+});
+
+describe("MirrorDocument", () => {
+  it("serves a hostile source without executable markup", async () => {
+    const html = renderToStaticMarkup(
+      await MirrorDocument({ source: "https://example.com/post" })
+    );
+
+    expect(html.match(/<script/g)).toHaveLength(1);
+    expect(html).not.toMatch(/<img[^>]*onerror/i);
+    const jsonLd = JSON.parse(jsonLdPayload(html) ?? "");
+    expect(jsonLd.headline).toBe(attack);
+    expect(jsonLd.articleBody).toBe(result.markdown);
+  });
+});
@@ -0,0 +1,145 @@
+import { ExtractionError, type ExtractionResult } from "@/lib/extractor";
+import { buildMirrorJsonLd } from "@/lib/ai-mirror";
+import { renderMarkdownHtml } from "@/lib/markdown-html";
+import { getMirrorExtraction } from "@/lib/mirror-extraction";
+
+/**
+ * Server-rendered AI mirror of `source`: Markdown payload, semantic HTML and
+ * JSON-LD in one document. Shared by `/ai?source=` and host-routed mirrors,
+ * so it is served on `ai.<domain>` and registered source origins; everything
+ * taken from the source is escaped or sanitised here rather than by callers.
+ */
+export async function MirrorDocument({ source }: { source: string }) {
+  let result: ExtractionResult | null = null;
+  let failureMessage = "Unable to render AI mirror.";
+
+  try {
+    result = (await getMirrorExtraction(source)).result;
+  } catch (error) {
+    if (error instanceof ExtractionError) {
+      failureMessage = error.message;
+    }
+  }
+
+  if (!result) {
+    return (
+      <Shell heading="AI Mirror Error">
+        <p>{failureMessage}</p>
+      </Shell>
+    );
+  }
+
+  const html = renderMarkdownHtml(result.markdown);
+
+  return (
+    <Shell
+      heading={result.title}
+      canonical={result.canonical}
+      original={result.url}
+    >
+      <section aria-labelledby="md-heading">
+        <h2 id="md-heading">Markdown Payload</h2>
+        <pre data-format="md">{result.markdown}</pre>
+      </section>
+
+      <section aria-labelledby="html-heading">
+        <h2 id="html-heading">Rendered HTML</h2>
+        <article
+          className="ai-article"
+          dangerouslySetInnerHTML={{ __html: html }}
+        />
+      </section>
+
+      <section aria-labelledby="meta-heading">
+        <h2 id="meta-heading">Metadata</h2>
+        <dl>
+          <MetaRow label="Author" value={result.metadata.author} />
+          <MetaRow label="Published" value={result.metadata.published} />
+          <MetaRow label="Updated" value={result.metadata.updated} />
+          <MetaRow label="Language" value={result.metadata.language} />
+          <MetaRow label="Content Type" value={result.metadata.contentType} />
+          <MetaRow
+            label="Primary Topics"
+            value={result.metadata.primaryTopics.join(", ") || undefined}
+          />
+          <MetaRow
+            label="Entities"
+            value={result.metadata.entities.join(", ") || undefined}
+          />
+        </dl>
+      </section>
+
+      <JsonLdScript data={buildMirrorJsonLd(result)} />
+    </Shell>
+  );
+}
+
+export function Shell({
+  heading,
+  canonical,
+  original,
+  children,
+}: {
+  heading: string;
+  canonical?: string;
+  original?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <main className="mx-auto flex min-h-screen max-w-4xl flex-col gap-8 px-6 py-12 text-base text-slate-100">
+      <header>
+        <p className="text-xs uppercase tracking-[0.4em] text-lime-300">
+          AI Mirror
+        </p>
+        <h1 className="text-3xl font-semibold text-white">{heading}</h1>
+        <div className="mt-4 space-y-1 text-sm text-slate-300">
+          {original && (
+            <p>
+              Original URL: <span className="text-slate-100">{original}</span>
+            </p>
+          )}
+          {canonical && (
+            <p>
+              Canonical URL: <span className="text-slate-100">{canonical}</span>
+            </p>
+          )}
+        </div>
+      </header>
+      {children}
+    </main>
+  );
+}
+
+/**
+ * JSON-LD block for `data`. The payload carries source Markdown verbatim, so
+ * `<`, `>`, `&` and the JS line separators are escaped to keep it from
+ * closing the script element.
+ */
+export function JsonLdScript({ data }: { data: unknown }) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }}
+    />
+  );
+}
+
+function serializeJsonLd(data: unknown): string {
+  return JSON.stringify(data)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
+
+function MetaRow({ label, value }: { label: string; value?: string }) {
+  return (
+    <div className="border-b border-white/10 py-2">
+      <dt className="text-xs uppercase tracking-widest text-slate-400">
+        {label}
+      </dt>
+      <dd className="text-sm text-slate-100">{value ?? ""}</dd>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { buildAiMirrorJson, buildMirrorJsonLd } from "@/lib/ai-mirror";
+import { ExtractionError, formatAsMdf, type ExtractionResult } from "@/lib/extractor";
+import { isNotModified, mirrorCacheHeaders, mirrorEtag } from "@/lib/mirror-cache";
+import { getMirrorExtraction } from "@/lib/mirror-extraction";
+import { resolveHostedSource } from "@/lib/mirror-source";
+
+export const runtime = "nodejs";
+
+const FORMATS = ["md", "json", "jsonld"] as const;
+type RepresentationFormat = (typeof FORMATS)[number];
+
+/**
+ * Non-HTML representations of the AI mirror, reached through content
+ * negotiation or `.md` / `.json` suffixes. The page is either `?source=<url>`
+ * or a mirror host path (`?site=<domain>&path=/pricing`), which must belong
+ * to a completed crawl.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ format: string }> }
+) {
+  const { format } = await params;
+  if (!FORMATS.includes(format as RepresentationFormat)) {
+    return NextResponse.json({ error: "Unknown mirror format." }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const site = searchParams.get("site")?.trim().toLowerCase();
+  let source = searchParams.get("source")?.trim();
+  if (!source && site) {
+    source = await resolveHostedSource(site, searchParams.get("path") || "/");
+    if (!source) {
+      return NextResponse.json(
+        { error: "This path is not part of any completed crawl." },
+        { status: 404 }
+      );
+    }
+  }
+  if (!source) {
+    return NextResponse.json(
+      { error: "Provide a source URL to mirror." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const mirror = await getMirrorExtraction(source);
+    const etag = mirrorEtag(mirror.contentHash, format as RepresentationFormat);
+    const headers = { ...mirrorCacheHeaders(etag, mirror.fetchedAt), Vary: "Accept" };
+    if (isNotModified(request.headers, etag, mirror.fetchedAt)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+    return respondWithFormat(mirror.result, format as RepresentationFormat, source, headers);
+  } catch (error) {
+    const status = error instanceof ExtractionError ? error.status : 500;
+    const message =
+      error instanceof Error ? error.message : "Unable to render AI mirror.";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+function respondWithFormat(
+  result: ExtractionResult,
+  format: RepresentationFormat,
+  source: string,
+  headers: Record<string, string>
+) {
+  if (format === "md") {
+    return new NextResponse(formatAsMdf(result), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/markdown; charset=utf-8",
+        ...headers,
+      },
+    });
+  }
+
+  if (format === "jsonld") {
+    return new NextResponse(JSON.stringify(buildMirrorJsonLd(result)), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/ld+json; charset=utf-8",
+        ...headers,
+      },
+    });
+  }
+
+  return NextResponse.json(buildAiMirrorJson(result, source), { headers });
+}
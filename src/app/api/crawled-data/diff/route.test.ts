@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CrawledPage, CrawlSession } from "@/lib/mongodb";
+
+const store = vi.hoisted(() => ({
+  sessions: new Map<string, CrawlSession>(),
+  pages: new Map<string, CrawledPage[]>(),
+}));
+
+vi.mock("@/lib/mongodb", () => ({
+  getCrawlSessionById: vi.fn(async (id: string) => store.sessions.get(id) ?? null),
+  getCrawledItemsBySession: vi.fn(async (id: string) => store.pages.get(id) ?? []),
+}));
+
+const { GET } = await import("./route");
+
+const session = (
+  sessionId: string,
+  status: CrawlSession["status"]
+): CrawlSession => ({
+  sessionId,
+  siteDomain: "example.com",
+  rootUrl: "https://example.com/",
+  pageCount: 1,
+  generatedAt: new Date("2026-01-01T00:00:00Z"),
+  status,
+});
+
+const page = (sessionId: string, url: string): CrawledPage => ({
+  sessionId,
+  url,
+  ai_url: `${url}?ai=1`,
+  type: "page",
+  priority: 0.5,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+});
+
+const compare = () =>
+  GET(new Request("https://app.test/api/crawled-data/diff?from=s1&to=s2"));
+
+describe("GET /api/crawled-data/diff", () => {
+  beforeEach(() => {
+    store.sessions.clear();
+    store.pages.clear();
+    store.pages.set("s1", [page("s1", "https://example.com/")]);
+    store.pages.set("s2", [
+      page("s2", "https://example.com/"),
+      page("s2", "https://example.com/new"),
+    ]);
+  });
+
+  it.each(["pending", "failed"] as const)(
+    "refuses to compare with a %s session",
+    async (status) => {
+      store.sessions.set("s1", session("s1", "completed"));
+      store.sessions.set("s2", session("s2", status));
+
+      const response = await compare();
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({
+        error: "Only completed crawl sessions can be compared.",
+      });
+    }
+  );
+
+  it("refuses when the older session did not complete", async () => {
+    store.sessions.set("s1", session("s1", "failed"));
+    store.sessions.set("s2", session("s2", "completed"));
+
+    expect((await compare()).status).toBe(409);
+  });
+
+  it("compares two completed sessions", async () => {
+    store.sessions.set("s1", session("s1", "completed"));
+    store.sessions.set("s2", session("s2", "completed"));
+
+    const response = await compare();
+
+    expect(response.status).toBe(200);
+    const diff = await response.json();
+    expect(diff.added.map((entry: { url: string }) => entry.url)).toEqual([
+      "https://example.com/new",
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { buildDiffMarkdown, diffCrawls } from "@/lib/crawl-diff";
+import { getCrawledItemsBySession, getCrawlSessionById } from "@/lib/mongodb";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const fromId = searchParams.get("from");
+  const toId = searchParams.get("to");
+  const format = searchParams.get("format") === "md" ? "md" : "json";
+
+  if (!fromId || !toId) {
+    return NextResponse.json(
+      { error: "Provide from and to session IDs." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [fromSession, toSession] = await Promise.all([
+      getCrawlSessionById(fromId),
+      getCrawlSessionById(toId),
+    ]);
+
+    if (!fromSession || !toSession) {
+      return NextResponse.json(
+        { error: "Crawl session not found." },
+        { status: 404 }
+      );
+    }
+    if (
+      fromSession.status !== "completed" ||
+      toSession.status !== "completed"
+    ) {
+      return NextResponse.json(
+        { error: "Only completed crawl sessions can be compared." },
+        { status: 409 }
+      );
+    }
+    if (fromSession.siteDomain !== toSession.siteDomain) {
+      return NextResponse.json(
+        { error: "Only crawls of the same site can be compared." },
+        { status: 400 }
+      );
+    }
+
+    const [fromPages, toPages] = await Promise.all([
+      getCrawledItemsBySession(fromId),
+      getCrawledItemsBySession(toId),
+    ]);
+
+    const diff = diffCrawls(
+      toSession.siteDomain,
+      {
+        sessionId: fromId,
+        generatedAt: fromSession.generatedAt.toISOString(),
+        pages: fromPages,
+      },
+      {
+        sessionId: toId,
+        generatedAt: toSession.generatedAt.toISOString(),
+        pages: toPages,
+      }
+    );
+
+    if (format === "md") {
+      return new NextResponse(buildDiffMarkdown(diff), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/markdown; charset=utf-8",
+        },
+      });
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error("Error comparing crawl sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to compare crawl sessions" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,9 +5,10 @@ import {
   getCrawledItemsBySession,
   deleteCrawledItem,
   deleteCrawlSession,
-  getFeedDataBySession, // Added this import
+  getCrawlSessionById,
 } from "@/lib/mongodb";
 import { auth } from "@/auth";
+import { loadStoredCrawlArtifacts } from "@/lib/crawl-jobs";
 
 export async function GET(request: Request) {
   try {
@@ -20,30 +21,26 @@ export async function GET(request: Request) {
 
     let data;
     if (sessionId) {
-      // Fetch both crawled pages and feed data (contains XML) for this session
-      const [pages, feedData] = await Promise.all([
+      // The sitemap XML and page list are rebuilt from the stored pages.
+      const [pages, artifacts, crawl] = await Promise.all([
         getCrawledItemsBySession(sessionId),
-        getFeedDataBySession(sessionId),
+        loadStoredCrawlArtifacts(sessionId),
+        getCrawlSessionById(sessionId),
       ]);
 
-      const feed = feedData[0]; // Get the first feed entry
-
-      console.log('[DEBUG crawled-data API] sessionId:', sessionId);
-      console.log('[DEBUG crawled-data API] pages count:', pages.length);
-      console.log('[DEBUG crawled-data API] feedData count:', feedData.length);
-      console.log('[DEBUG crawled-data API] feed exists:', !!feed);
-      if (feed) {
-        console.log('[DEBUG crawled-data API] feed has xmlContent:', !!feed.xmlContent);
-        console.log('[DEBUG crawled-data API] XML length:', feed.xmlContent?.length || 0);
-      }
-
       return NextResponse.json({
         data: pages,
-        feed: feed ? {
-          xmlContent: feed.xmlContent,
-          jsonContent: feed.jsonContent,
-          siteDomain: feed.siteDomain,
-          rootUrl: feed.rootUrl,
+        feed: artifacts ? {
+          xmlContent: artifacts.xml,
+          jsonContent: JSON.stringify({
+            site: artifacts.site,
+            generated_at: artifacts.generated_at,
+            pages: artifacts.pages,
+            removed: artifacts.removed,
+            sitemap_options: artifacts.sitemapOptions,
+          }),
+          siteDomain: artifacts.site,
+          rootUrl: crawl?.rootUrl,
         } : null,
       });
     } else {
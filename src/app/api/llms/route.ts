@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { loadLlmsFile, type LlmsVariant } from "@/lib/llms-txt";
+
+export const runtime = "nodejs";
+
+/**
+ * Renders `llms.txt` (or `llms-full.txt` with `variant=full`) for a completed
+ * crawl session.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sessionId = searchParams.get("sessionId");
+  const variant: LlmsVariant = searchParams.get("variant") === "full" ? "llms-full" : "llms";
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Provide a sessionId parameter." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const content = await loadLlmsFile(sessionId, variant);
+    if (content === undefined) {
+      return NextResponse.json(
+        { error: "No completed crawl found for this session." },
+        { status: 404 }
+      );
+    }
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to build llms.txt:", error);
+    return NextResponse.json(
+      { error: "Failed to build llms.txt" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,198 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { MAX_DEPTH, clamp, normalizeUrl } from "@/lib/crawler";
+import { nextCronRun, parseCron } from "@/lib/cron";
+import { ExtractionError } from "@/lib/extraction-error";
+import {
+  createCrawlSchedule,
+  deleteCrawlSchedule,
+  getCrawlScheduleById,
+  getCrawlSchedules,
+  updateCrawlSchedule,
+  type CrawlSchedule,
+} from "@/lib/mongodb";
+import { assertPublicUrl } from "@/lib/safe-fetch";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const userId = await sessionUserId();
+  if (!userId) {
+    return unauthorized();
+  }
+
+  try {
+    const schedules = await getCrawlSchedules(userId);
+    return NextResponse.json({ data: schedules.map(toResponse) });
+  } catch (error) {
+    console.error("Error fetching crawl schedules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch crawl schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const userId = await sessionUserId();
+  if (!userId) {
+    return unauthorized();
+  }
+
+  const payload = await request.json().catch(() => ({}));
+  const inputUrl = typeof payload?.url === "string" ? payload.url.trim() : "";
+  const cron = typeof payload?.cron === "string" ? payload.cron.trim() : "";
+  const depthSetting = Number(payload?.maxDepth ?? 3);
+
+  if (!inputUrl || !cron) {
+    return NextResponse.json(
+      { error: "Provide a root URL and a cron expression." },
+      { status: 400 }
+    );
+  }
+
+  let rootUrl: string;
+  let nextRunAt: Date | undefined;
+  try {
+    rootUrl = normalizeUrl(inputUrl);
+    nextRunAt = nextCronRun(parseCron(cron), new Date());
+    await assertPublicUrl(new URL(rootUrl));
+  } catch (error) {
+    const status = error instanceof ExtractionError ? error.status : 400;
+    const message = error instanceof Error ? error.message : "Invalid schedule.";
+    return NextResponse.json({ error: message }, { status });
+  }
+  if (!nextRunAt) {
+    return NextResponse.json(
+      { error: "This cron expression never fires." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const schedule: Omit<CrawlSchedule, "_id" | "createdAt"> = {
+      scheduleId: randomUUID(),
+      userId,
+      siteDomain: new URL(rootUrl).hostname.replace(/^www\./i, ""),
+      rootUrl,
+      maxDepth: clamp(depthSetting, 1, MAX_DEPTH),
+      cron,
+      paused: false,
+      nextRunAt,
+    };
+    await createCrawlSchedule(schedule);
+    return NextResponse.json(
+      { data: toResponse({ ...schedule, createdAt: new Date() }) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating crawl schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to create crawl schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request) {
+  const userId = await sessionUserId();
+  if (!userId) {
+    return unauthorized();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const scheduleId = searchParams.get("scheduleId");
+  const payload = await request.json().catch(() => ({}));
+
+  if (!scheduleId || typeof payload?.paused !== "boolean") {
+    return NextResponse.json(
+      { error: "Provide a scheduleId parameter and a paused flag." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const schedule = await loadOwnedSchedule(scheduleId, userId);
+    if (!schedule) {
+      return NextResponse.json({ error: "Schedule not found." }, { status: 404 });
+    }
+
+    const paused: boolean = payload.paused;
+    const nextRunAt = paused ? null : nextCronRun(schedule.cron, new Date()) ?? null;
+    await updateCrawlSchedule(scheduleId, { paused, nextRunAt });
+    return NextResponse.json({ data: toResponse({ ...schedule, paused, nextRunAt }) });
+  } catch (error) {
+    console.error("Error updating crawl schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to update crawl schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const userId = await sessionUserId();
+  if (!userId) {
+    return unauthorized();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const scheduleId = searchParams.get("scheduleId");
+
+  if (!scheduleId) {
+    return NextResponse.json(
+      { error: "Provide a scheduleId parameter" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const schedule = await loadOwnedSchedule(scheduleId, userId);
+    if (!schedule) {
+      return NextResponse.json({ error: "Schedule not found." }, { status: 404 });
+    }
+    const success = await deleteCrawlSchedule(scheduleId);
+    return NextResponse.json({ success });
+  } catch (error) {
+    console.error("Error deleting crawl schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete crawl schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+async function sessionUserId(): Promise<string | undefined> {
+  const session = await auth();
+  return session?.user?.id ?? undefined;
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: "Sign in to manage crawl schedules." }, { status: 401 });
+}
+
+// Schedules owned by another user, or by nobody, are reported as missing.
+async function loadOwnedSchedule(scheduleId: string, userId: string) {
+  const schedule = await getCrawlScheduleById(scheduleId);
+  if (!schedule || schedule.userId !== userId) {
+    return null;
+  }
+  return schedule;
+}
+
+function toResponse(schedule: CrawlSchedule) {
+  return {
+    scheduleId: schedule.scheduleId,
+    siteDomain: schedule.siteDomain,
+    rootUrl: schedule.rootUrl,
+    maxDepth: schedule.maxDepth,
+    cron: schedule.cron,
+    paused: schedule.paused,
+    nextRunAt: schedule.nextRunAt ?? null,
+    lastRunAt: schedule.lastRunAt ?? null,
+    lastSessionId: schedule.lastSessionId ?? null,
+    lastStatus: schedule.lastStatus ?? null,
+    createdAt: schedule.createdAt,
+  };
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { getCrawlJobResult } from "@/lib/crawl-jobs";
+import { getSitemapFile } from "@/lib/mongodb";
+import { gunzipSitemap, gzipSitemap, splitSitemap } from "@/lib/sitemap-index";
+
+export const runtime = "nodejs";
+
+const FILE_NAME_PATTERN = /^(sitemap-\d+\.xml)(\.gz)?$/;
+
+/**
+ * Serves one child sitemap referenced by `GET /api/sitemap?format=index`,
+ * either as plain XML or, with a `.gz` suffix, as the gzip artifact.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ sessionId: string; name: string }> }
+) {
+  const { sessionId, name } = await params;
+  const match = name.match(FILE_NAME_PATTERN);
+  if (!match) {
+    return NextResponse.json({ error: "Unknown sitemap file." }, { status: 404 });
+  }
+  const [, baseName, gzipSuffix] = match;
+
+  try {
+    const gzipContent = await loadSitemapGzip(sessionId, baseName);
+    if (!gzipContent) {
+      return NextResponse.json(
+        { error: "No sitemap file found for this session." },
+        { status: 404 }
+      );
+    }
+
+    if (gzipSuffix) {
+      return new NextResponse(new Uint8Array(gzipContent), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/gzip",
+          "Content-Disposition": `attachment; filename="${name}"`,
+        },
+      });
+    }
+
+    return new NextResponse(gunzipSitemap(gzipContent), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/xml; charset=utf-8",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to load sitemap file:", error);
+    return NextResponse.json(
+      { error: "Failed to load sitemap file" },
+      { status: 500 }
+    );
+  }
+}
+
+async function loadSitemapGzip(
+  sessionId: string,
+  name: string
+): Promise<Uint8Array | undefined> {
+  const artifacts = getCrawlJobResult(sessionId);
+  if (artifacts) {
+    const file = splitSitemap(
+      artifacts.site,
+      artifacts.pages,
+      artifacts.generated_at,
+      artifacts.sitemapOptions
+    ).find((candidate) => candidate.name === name);
+    return file ? gzipSitemap(file.xml) : undefined;
+  }
+
+  const stored = await getSitemapFile(sessionId, name);
+  return stored?.gzipContent.buffer;
+}
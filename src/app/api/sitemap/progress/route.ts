@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import {
+  getCrawlJob,
+  subscribeToCrawlJob,
+  type CrawlJobSnapshot,
+} from "@/lib/crawl-jobs";
+import { getCrawlSessionById } from "@/lib/mongodb";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Server-Sent Events stream for a crawl job. Emits `progress` while the crawl
+ * runs and finishes with a single `complete` or `failed` event.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sessionId = searchParams.get("sessionId");
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Provide a sessionId parameter." },
+      { status: 400 }
+    );
+  }
+
+  const initial = getCrawlJob(sessionId) ?? (await loadStoredSnapshot(sessionId));
+  if (!initial) {
+    return NextResponse.json(
+      { error: "No crawl found for this session." },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (snapshot: CrawlJobSnapshot) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatEvent(snapshot)));
+        if (snapshot.status !== "pending") {
+          close();
+        }
+      };
+
+      const unsubscribe =
+        initial.status === "pending" ? subscribeToCrawlJob(sessionId, send) : undefined;
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": keep-alive\n\n"));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe?.();
+        request.signal.removeEventListener("abort", close);
+        controller.close();
+      };
+      cleanup = close;
+
+      request.signal.addEventListener("abort", close);
+      send(initial);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+function formatEvent(snapshot: CrawlJobSnapshot): string {
+  const event =
+    snapshot.status === "completed"
+      ? "complete"
+      : snapshot.status === "failed"
+        ? "failed"
+        : "progress";
+  return `event: ${event}\ndata: ${JSON.stringify(snapshot)}\n\n`;
+}
+
+// Jobs started by another process (or before a restart) are only known to
+// MongoDB; report their stored status so the client is not left waiting.
+async function loadStoredSnapshot(
+  sessionId: string
+): Promise<CrawlJobSnapshot | undefined> {
+  try {
+    const stored = await getCrawlSessionById(sessionId);
+    if (!stored) {
+      return undefined;
+    }
+    return {
+      sessionId,
+      siteDomain: stored.siteDomain,
+      rootUrl: stored.rootUrl,
+      status: stored.status === "pending" ? "failed" : stored.status,
+      progress: {
+        visited: stored.pageCount,
+        queued: 0,
+        skippedByRobots: 0,
+        failed: 0,
+        pagesFound: stored.pageCount,
+        seededFromSitemaps: 0,
+      },
+      startedAt: stored.generatedAt.toISOString(),
+      finishedAt: stored.completedAt?.toISOString(),
+      error:
+        stored.status === "pending"
+          ? "Crawl job is no longer running on this server."
+          : stored.error,
+    };
+  } catch {
+    return undefined;
+  }
+}
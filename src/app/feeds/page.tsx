@@ -13,10 +13,18 @@ import {
 
 /* ----------------------------- Types ----------------------------- */
 
-const SITEMAP_FORMATS = ["json", "xml"] as const;
+const SITEMAP_FORMATS = ["json", "xml", "llms", "llms-full"] as const;
 type SitemapFormat = (typeof SITEMAP_FORMATS)[number];
+type LlmsFormat = Extract<SitemapFormat, "llms" | "llms-full">;
 type CopyState = "idle" | "success" | "error";
 
+const FILE_NAMES: Record<SitemapFormat, string> = {
+  json: "sitemap.json",
+  xml: "sitemap.xml",
+  llms: "llms.txt",
+  "llms-full": "llms-full.txt",
+};
+
 /* ----------------------------- Icons ----------------------------- */
 
 const CodeIcon = ({ className }: { className?: string }) => (
@@ -59,15 +67,22 @@ const FileWarningIcon = ({ className }: { className?: string }) => (
 
 /* ---------------------------- Helpers ---------------------------- */
 
+function isLlmsFormat(format: SitemapFormat): format is LlmsFormat {
+  return format === "llms" || format === "llms-full";
+}
+
 function getPayload(
   snapshot: PersistedFeedSnapshot | null,
-  format: SitemapFormat
+  format: SitemapFormat,
+  llmsFiles: Partial<Record<LlmsFormat, string>>
 ) {
   if (!snapshot) return "";
+  if (isLlmsFormat(format)) return llmsFiles[format] ?? "";
   return format === "xml" ? snapshot.xml : snapshot.json;
 }
 
 function getMimeType(format: SitemapFormat) {
+  if (isLlmsFormat(format)) return "text/plain";
   return format === "xml" ? "application/xml" : "application/json";
 }
 
@@ -90,6 +105,9 @@ export default function FeedsWorkspace() {
   const [format, setFormat] = useState<SitemapFormat>("json");
   const [snapshot, setSnapshot] = useState<PersistedFeedSnapshot | null>(null);
   const [copyState, setCopyState] = useState<CopyState>("idle");
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [llmsFiles, setLlmsFiles] = useState<Partial<Record<LlmsFormat, string>>>({});
+  const [llmsErrors, setLlmsErrors] = useState<Partial<Record<LlmsFormat, string>>>({});
 
   useEffect(() => {
     const validateAndLoadSnapshot = async () => {
@@ -102,13 +120,19 @@ export default function FeedsWorkspace() {
         const response = await fetch("/api/crawled-data");
         if (response.ok) {
           const data = await response.json();
-          const sessions: Array<{ rootUrl: string }> = data.data || [];
+          const sessions: Array<{ rootUrl: string; sessionId: string; status: string }> =
+            data.data || [];
           const sessionExists = sessions.some((s) => s.rootUrl === cached.rootUrl);
           if (!sessionExists) {
             // Snapshot belongs to a different user or was deleted, clear it
             clearFeedSnapshot();
             return;
           }
+          // History is newest first, so this is the crawl the snapshot came from
+          const latest = sessions.find(
+            (s) => s.rootUrl === cached.rootUrl && s.status === "completed"
+          );
+          setSessionId(latest?.sessionId ?? null);
         }
       } catch {
         // If validation fails, still show the cached data
@@ -126,7 +150,39 @@ export default function FeedsWorkspace() {
     return () => window.clearTimeout(timeout);
   }, [copyState]);
 
-  const payload = getPayload(snapshot, format);
+  useEffect(() => {
+    if (!isLlmsFormat(format) || !sessionId) return;
+    if (llmsFiles[format] !== undefined || llmsErrors[format]) return;
+
+    const fetchLlmsFile = async () => {
+      const setError = (message: string) =>
+        setLlmsErrors((prev) => ({ ...prev, [format]: message }));
+      try {
+        const variant = format === "llms-full" ? "&variant=full" : "";
+        const response = await fetch(
+          `/api/llms?sessionId=${encodeURIComponent(sessionId)}${variant}`
+        );
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          setError(data.error || "Failed to build llms.txt.");
+          return;
+        }
+        const content = await response.text();
+        setLlmsFiles((prev) => ({ ...prev, [format]: content }));
+      } catch {
+        setError("Network error. Please try again.");
+      }
+    };
+
+    fetchLlmsFile();
+  }, [format, sessionId, llmsFiles, llmsErrors]);
+
+  const payload = getPayload(snapshot, format, llmsFiles);
+  const llmsStatus = !isLlmsFormat(format)
+    ? ""
+    : !sessionId
+      ? "llms.txt files are built from a stored crawl session. Run a crawl while signed in to generate them."
+      : llmsErrors[format] ?? "Loading…";
 
   const handleCopy = async () => {
     if (!payload) return;
@@ -144,8 +200,7 @@ export default function FeedsWorkspace() {
 
   const handleDownload = () => {
     if (!payload) return;
-    const filename = `sitemap.${format}`;
-    downloadTextFile(payload, filename, getMimeType(format));
+    downloadTextFile(payload, FILE_NAMES[format], getMimeType(format));
   };
 
   return (
@@ -190,7 +245,7 @@ export default function FeedsWorkspace() {
                         `}
                       >
                         <CodeIcon className="w-4 h-4 opacity-70" />
-                        {option.toUpperCase()}
+                        {isLlmsFormat(option) ? FILE_NAMES[option] : option.toUpperCase()}
                       </button>
                     );
                   })}
@@ -235,7 +290,7 @@ export default function FeedsWorkspace() {
                       <div className="w-3 h-3 rounded-full bg-amber-500/20 border border-amber-500/50"></div>
                       <div className="w-3 h-3 rounded-full bg-emerald-500/20 border border-emerald-500/50"></div>
                     </div>
-                    <span className="ml-2 text-xs text-slate-400 font-mono">sitemap.{format}</span>
+                    <span className="ml-2 text-xs text-slate-400 font-mono">{FILE_NAMES[format]}</span>
                   </div>
                   <div className="text-[10px] text-slate-600 uppercase tracking-widest font-semibold">
                     Preview
@@ -245,7 +300,7 @@ export default function FeedsWorkspace() {
                 {/* Content */}
                 <div className="flex-1 overflow-auto p-6">
                   <pre className="font-mono text-sm leading-relaxed text-slate-300 whitespace-pre-wrap break-all">
-                    {payload}
+                    {payload || llmsStatus}
                   </pre>
                 </div>
               </div>
@@ -0,0 +1,15 @@
+import { loadLatestLlmsFile } from "@/lib/llms-txt";
+import { mirrorFileHandler } from "@/lib/mirror-file-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Serves `/llms-full.txt` on the AI mirror host from the latest completed crawl
+ * of the site.
+ */
+export const GET = mirrorFileHandler({
+  name: "llms-full.txt",
+  contentType: "text/plain",
+  load: (site) => loadLatestLlmsFile(site, "llms-full"),
+});
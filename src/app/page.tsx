@@ -16,6 +16,7 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { SidebarRail } from "@/components/sidebar-rail";
 import { saveFeedSnapshot } from "@/lib/feed-storage";
+import { runCrawl, type CrawlProgress } from "@/lib/crawl-client";
 
 const MAX_SITEMAP_DEPTH = 4;
 
@@ -336,6 +337,9 @@ export default function Home() {
   const [displayState, setDisplayState] = useState<DisplayState>("json-xml");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(
+    null
+  );
 
   const [resultJson, setResultJson] = useState("");
   const [resultXml, setResultXml] = useState("");
@@ -552,6 +556,7 @@ export default function Home() {
     setError(null);
     setViewStage("progress");
     setDisplayState("json-xml");
+    setCrawlProgress(null);
     setSitemapPages([]);
     setSelectedPage(null);
     setSelectedMarkdown("");
@@ -564,26 +569,10 @@ export default function Home() {
     setMarkdownLoadingMap({});
 
     try {
-      const response = await fetch("/api/sitemap", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url: rootUrl, maxDepth: depth }),
-      });
-
-      const body = await response.text();
-
-      if (!response.ok) {
-        let message = "Unable to generate sitemap.";
-        try {
-          const payload = JSON.parse(body);
-          message = payload?.error ?? message;
-        } catch {
-          // ignore parse errors
-        }
-        throw new Error(message);
-      }
-
-      const payload: SitemapApiResponse = body ? JSON.parse(body) : {};
+      const payload: SitemapApiResponse = await runCrawl(
+        { url: rootUrl, maxDepth: depth },
+        setCrawlProgress
+      );
       const enrichedPages = mapPagesFromPayload(payload);
 
       const xmlContent = payload.xml ?? "";
@@ -614,8 +603,7 @@ export default function Home() {
       localStorage.setItem("ai-mirror-summary", JSON.stringify(aiMirrorSnapshot));
       // ---------------------------------------
 
-      setDisplayState("ai-mirror");
-      setTimeout(() => setDisplayState("ready"), 1000);
+      setDisplayState("ready");
 
       setViewStage("progress");
 
@@ -643,6 +631,7 @@ export default function Home() {
     setDepth(2);
     setViewStage("form");
     setDisplayState("json-xml");
+    setCrawlProgress(null);
     setIsLoading(false);
     setError(null);
     setResultJson("");
@@ -860,6 +849,29 @@ export default function Home() {
               <p className="text-slate-500">{rootUrl}</p>
             </div>
 
+            {crawlProgress && (
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: "Visited", value: crawlProgress.visited },
+                  { label: "Queued", value: crawlProgress.queued },
+                  { label: "Skipped by robots.txt", value: crawlProgress.skippedByRobots },
+                  { label: "Failed", value: crawlProgress.failed },
+                ].map((stat) => (
+                  <div
+                    key={stat.label}
+                    className="rounded-xl bg-white border border-slate-100 px-4 py-3 text-center"
+                  >
+                    <dt className="text-xs font-medium uppercase tracking-wider text-slate-400">
+                      {stat.label}
+                    </dt>
+                    <dd className="text-2xl font-bold text-slate-900 tabular-nums">
+                      {stat.value}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+
             <div className="grid md:grid-cols-2 gap-6">
               <StatusCard
                 icon={<DocumentIcon className="w-6 h-6" />}
@@ -3,6 +3,8 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { SidebarRail } from "@/components/sidebar-rail";
+import { CrawlDiffPanel } from "@/components/crawl-diff-panel";
+import { CrawlSchedulesPanel } from "@/components/crawl-schedules-panel";
 import { loadFeedSnapshot, clearFeedSnapshot } from "@/lib/feed-storage";
 
 type CrawlHistoryItem = {
@@ -191,6 +193,14 @@ export default function RecentCrawlsPage() {
             </div>
           )}
 
+          {/* Scheduled Crawls */}
+          <CrawlSchedulesPanel formatDate={formatDate} />
+
+          {/* Crawl Diff */}
+          {!isLoading && (
+            <CrawlDiffPanel sessions={crawlHistory} formatDate={formatDate} />
+          )}
+
           {/* Content Area */}
           {isLoading ? (
             <div className="space-y-4">
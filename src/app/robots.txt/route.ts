@@ -0,0 +1,18 @@
+import { buildMainRobotsTxt, buildMirrorRobotsTxt } from "@/lib/mirror-files";
+import { mirrorFileHandler } from "@/lib/mirror-file-route";
+import { getLatestCompletedSession } from "@/lib/mongodb";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Serves `/robots.txt` on the AI mirror host, built from the site's bot
+ * policy settings. The app's own host gets an allow-all file.
+ */
+export const GET = mirrorFileHandler({
+  name: "robots.txt",
+  contentType: "text/plain",
+  load: async (site) =>
+    (await getLatestCompletedSession(site)) ? buildMirrorRobotsTxt(site) : undefined,
+  fallback: () => buildMainRobotsTxt(),
+});
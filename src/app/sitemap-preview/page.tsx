@@ -5,6 +5,7 @@ import { FormEvent, useEffect, useMemo, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { SidebarRail } from "@/components/sidebar-rail";
+import { runCrawl } from "@/lib/crawl-client";
 
 type SitemapPage = {
   url: string;
@@ -96,15 +97,7 @@ export default function SitemapPreview({ searchParams }: Props) {
     setXml("");
 
     try {
-      const response = await fetch("/api/sitemap", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url, maxDepth: depthValue }),
-      });
-      const payload = await response.json().catch(() => ({}));
-      if (!response.ok) {
-        throw new Error(payload.error ?? "Unable to load sitemap preview.");
-      }
+      const payload = await runCrawl({ url, maxDepth: depthValue }, () => {});
 
       const parsedPages = Array.isArray(payload.pages)
         ? (payload.pages as SitemapPage[])
@@ -0,0 +1,16 @@
+import { buildMainSitemapXml, loadMirrorSitemapXml } from "@/lib/mirror-files";
+import { mirrorFileHandler } from "@/lib/mirror-file-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Serves `/sitemap.xml` on the AI mirror host from the latest completed crawl
+ * of the site. The app's own host gets an empty one.
+ */
+export const GET = mirrorFileHandler({
+  name: "sitemap.xml",
+  contentType: "application/xml",
+  load: loadMirrorSitemapXml,
+  fallback: (request) => buildMainSitemapXml(new URL(request.url).host),
+});
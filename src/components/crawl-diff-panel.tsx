@@ -0,0 +1,232 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { CrawlDiff } from "@/lib/crawl-diff";
+
+type DiffSessionOption = {
+  sessionId: string;
+  siteDomain: string;
+  generatedAt: string;
+  pageCount: number;
+  status: string;
+};
+
+type CrawlDiffPanelProps = {
+  sessions: DiffSessionOption[];
+  formatDate: (value: string) => string;
+};
+
+export function CrawlDiffPanel({ sessions, formatDate }: CrawlDiffPanelProps) {
+  const completed = useMemo(
+    () => sessions.filter((session) => session.status === "completed"),
+    [sessions]
+  );
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [diff, setDiff] = useState<CrawlDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fromSession = completed.find((session) => session.sessionId === fromId);
+  const candidates = completed.filter(
+    (session) =>
+      session.sessionId !== fromId && session.siteDomain === fromSession?.siteDomain
+  );
+
+  if (completed.length < 2) {
+    return null;
+  }
+
+  const handleCompare = async () => {
+    if (!fromId || !toId) return;
+    setIsComparing(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/crawled-data/diff?from=${fromId}&to=${toId}`
+      );
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setDiff(data);
+      } else {
+        setDiff(null);
+        setError(data.error || "Failed to compare crawls.");
+      }
+    } catch (compareError) {
+      console.error("Failed to compare crawls:", compareError);
+      setError("Network error. Please try again.");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleExport = async (format: "md" | "json") => {
+    if (!diff) return;
+    const content =
+      format === "json"
+        ? JSON.stringify(diff, null, 2)
+        : await fetch(
+            `/api/crawled-data/diff?from=${diff.from.sessionId}&to=${diff.to.sessionId}&format=md`
+          ).then((response) => (response.ok ? response.text() : ""));
+    if (!content) {
+      setError("Failed to export the diff.");
+      return;
+    }
+    const blob = new Blob([content], {
+      type: format === "json" ? "application/json" : "text/markdown",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${diff.site}-crawl-diff.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const counts = diff
+    ? [
+        { label: "Added", value: diff.added.length, tone: "text-emerald-700" },
+        { label: "Removed", value: diff.removed.length, tone: "text-red-700" },
+        { label: "Retyped", value: diff.retyped.length, tone: "text-indigo-700" },
+        { label: "Priority", value: diff.priority_changes.length, tone: "text-amber-700" },
+        { label: "Canonical", value: diff.canonical_changes.length, tone: "text-slate-700" },
+      ]
+    : [];
+
+  return (
+    <section className="bg-white p-5 rounded-xl border border-slate-200 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">Compare Crawls</h2>
+        <p className="text-sm text-slate-500">
+          See which pages were added, removed, retyped or re-prioritized between two crawls of the same site.
+        </p>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <select
+          value={fromId}
+          onChange={(e) => {
+            setFromId(e.target.value);
+            setToId("");
+            setDiff(null);
+          }}
+          className="flex-1 text-sm border border-slate-200 rounded-lg px-3 py-2 bg-slate-50"
+        >
+          <option value="">Base crawl…</option>
+          {completed.map((session) => (
+            <option key={session.sessionId} value={session.sessionId}>
+              {session.siteDomain} · {formatDate(session.generatedAt)} · {session.pageCount} pages
+            </option>
+          ))}
+        </select>
+        <select
+          value={toId}
+          disabled={!fromId}
+          onChange={(e) => {
+            setToId(e.target.value);
+            setDiff(null);
+          }}
+          className="flex-1 text-sm border border-slate-200 rounded-lg px-3 py-2 bg-slate-50 disabled:opacity-50"
+        >
+          <option value="">Compare with…</option>
+          {candidates.map((session) => (
+            <option key={session.sessionId} value={session.sessionId}>
+              {formatDate(session.generatedAt)} · {session.pageCount} pages
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleCompare}
+          disabled={!fromId || !toId || isComparing}
+          className="text-sm font-medium px-5 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          {isComparing ? "Comparing…" : "Compare"}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {diff && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {counts.map((count) => (
+              <div key={count.label} className="rounded-lg border border-slate-100 bg-slate-50 p-3">
+                <p className="text-xs font-medium text-slate-500">{count.label}</p>
+                <p className={`text-xl font-semibold ${count.tone}`}>{count.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <DiffList
+            title="Added pages"
+            separator=" · "
+            rows={diff.added.map((page) => [page.url, page.type, page.priority.toFixed(2)])}
+          />
+          <DiffList
+            title="Removed pages"
+            separator=" · "
+            rows={diff.removed.map((page) => [page.url, page.type, page.priority.toFixed(2)])}
+          />
+          <DiffList
+            title="Retyped pages"
+            rows={diff.retyped.map((change) => [change.url, change.from, change.to])}
+          />
+          <DiffList
+            title="Priority changes"
+            rows={diff.priority_changes.map((change) => [
+              change.url,
+              change.from.toFixed(2),
+              change.to.toFixed(2),
+            ])}
+          />
+          <DiffList
+            title="Canonical changes"
+            rows={diff.canonical_changes.map((change) => [change.source_url, change.from, change.to])}
+          />
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport("md")}
+              className="text-sm font-medium text-slate-600 bg-slate-50 hover:bg-emerald-50 hover:text-emerald-700 px-4 py-2 rounded-lg border border-slate-200 transition-colors"
+            >
+              Export Markdown
+            </button>
+            <button
+              onClick={() => handleExport("json")}
+              className="text-sm font-medium text-slate-600 bg-slate-50 hover:bg-emerald-50 hover:text-emerald-700 px-4 py-2 rounded-lg border border-slate-200 transition-colors"
+            >
+              Export JSON
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function DiffList({
+  title,
+  rows,
+  separator = " → ",
+}: {
+  title: string;
+  rows: string[][];
+  separator?: string;
+}) {
+  if (!rows.length) {
+    return null;
+  }
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-slate-700 mb-2">{title}</h3>
+      <ul className="divide-y divide-slate-100 rounded-lg border border-slate-100">
+        {rows.map(([url, ...details]) => (
+          <li key={`${title}-${url}`} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+            <span className="font-mono text-slate-600 truncate">{url}</span>
+            <span className="shrink-0 text-xs text-slate-500">{details.join(separator)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
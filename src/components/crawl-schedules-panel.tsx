@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+
+type ScheduleItem = {
+  scheduleId: string;
+  siteDomain: string;
+  rootUrl: string;
+  maxDepth: number;
+  cron: string;
+  paused: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: string | null;
+};
+
+type CrawlSchedulesPanelProps = {
+  formatDate: (value: string) => string;
+};
+
+const CRON_PRESETS = [
+  { label: "Nightly (02:00 UTC)", value: "0 2 * * *" },
+  { label: "Weekly (Mon 02:00 UTC)", value: "0 2 * * 1" },
+  { label: "Hourly", value: "@hourly" },
+];
+
+export function CrawlSchedulesPanel({ formatDate }: CrawlSchedulesPanelProps) {
+  const [schedules, setSchedules] = useState<ScheduleItem[]>([]);
+  const [url, setUrl] = useState("");
+  const [cron, setCron] = useState(CRON_PRESETS[0].value);
+  const [maxDepth, setMaxDepth] = useState(3);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSchedules = async () => {
+      try {
+        const response = await fetch("/api/schedules");
+        if (response.ok) {
+          const data = await response.json();
+          setSchedules(data.data || []);
+        }
+      } catch (fetchError) {
+        console.error("Failed to fetch crawl schedules:", fetchError);
+      }
+    };
+
+    fetchSchedules();
+  }, []);
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/schedules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url, cron, maxDepth }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setSchedules((prev) => [data.data, ...prev]);
+        setUrl("");
+      } else {
+        setError(data.error || "Failed to create schedule.");
+      }
+    } catch (createError) {
+      console.error("Failed to create schedule:", createError);
+      setError("Network error. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePause = async (schedule: ScheduleItem) => {
+    setBusyId(schedule.scheduleId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/schedules?scheduleId=${schedule.scheduleId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ paused: !schedule.paused }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setSchedules((prev) =>
+          prev.map((item) => (item.scheduleId === schedule.scheduleId ? data.data : item))
+        );
+      } else {
+        setError(data.error || "Failed to update schedule.");
+      }
+    } catch (updateError) {
+      console.error("Failed to update schedule:", updateError);
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: ScheduleItem) => {
+    const confirmDelete = window.confirm(
+      `Delete the ${schedule.cron} schedule for ${schedule.siteDomain}?`
+    );
+    if (!confirmDelete) return;
+
+    setBusyId(schedule.scheduleId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/schedules?scheduleId=${schedule.scheduleId}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        setSchedules((prev) =>
+          prev.filter((item) => item.scheduleId !== schedule.scheduleId)
+        );
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Failed to delete schedule.");
+      }
+    } catch (deleteError) {
+      console.error("Failed to delete schedule:", deleteError);
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section className="bg-white p-5 rounded-xl border border-slate-200 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">Scheduled Crawls</h2>
+        <p className="text-sm text-slate-500">
+          Recrawl a site automatically. Times are in UTC; each run builds on the last completed crawl.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-3">
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com"
+          className="flex-1 text-sm border border-slate-200 rounded-lg px-3 py-2 bg-slate-50"
+        />
+        <input
+          type="text"
+          list="cron-presets"
+          value={cron}
+          onChange={(e) => setCron(e.target.value)}
+          placeholder="0 2 * * *"
+          className="md:w-40 text-sm font-mono border border-slate-200 rounded-lg px-3 py-2 bg-slate-50"
+        />
+        <datalist id="cron-presets">
+          {CRON_PRESETS.map((preset) => (
+            <option key={preset.value} value={preset.value}>
+              {preset.label}
+            </option>
+          ))}
+        </datalist>
+        <select
+          value={maxDepth}
+          onChange={(e) => setMaxDepth(Number(e.target.value))}
+          className="text-sm border border-slate-200 rounded-lg px-3 py-2 bg-slate-50"
+        >
+          {[1, 2, 3, 4].map((depth) => (
+            <option key={depth} value={depth}>
+              Depth {depth}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!url.trim() || !cron.trim() || isSaving}
+          className="text-sm font-medium px-5 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? "Saving…" : "Add Schedule"}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {schedules.length > 0 && (
+        <ul className="divide-y divide-slate-100 rounded-lg border border-slate-100">
+          {schedules.map((schedule) => (
+            <li
+              key={schedule.scheduleId}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-4 py-3"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-semibold text-slate-900 truncate">{schedule.siteDomain}</span>
+                  <span className="font-mono text-xs bg-slate-50 border border-slate-200 rounded px-1.5 py-0.5 text-slate-600">
+                    {schedule.cron}
+                  </span>
+                  {schedule.paused && (
+                    <span className="text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-100 rounded-md px-2 py-0.5">
+                      paused
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-slate-400 font-medium mt-1">
+                  Last run:{" "}
+                  {schedule.lastRunAt
+                    ? `${formatDate(schedule.lastRunAt)}${schedule.lastStatus ? ` (${schedule.lastStatus})` : ""}`
+                    : "never"}
+                  {" · "}
+                  Next run:{" "}
+                  {schedule.paused || !schedule.nextRunAt ? "—" : formatDate(schedule.nextRunAt)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  disabled={busyId === schedule.scheduleId}
+                  onClick={() => handleTogglePause(schedule)}
+                  className="text-sm font-medium text-slate-600 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-700 px-4 py-2 rounded-lg border border-slate-200 transition-colors disabled:opacity-50"
+                >
+                  {schedule.paused ? "Resume" : "Pause"}
+                </button>
+                <button
+                  disabled={busyId === schedule.scheduleId}
+                  onClick={() => handleDelete(schedule)}
+                  className="text-sm font-medium text-slate-600 bg-slate-50 hover:bg-red-50 hover:text-red-700 px-4 py-2 rounded-lg border border-slate-200 transition-colors disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
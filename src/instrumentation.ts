@@ -0,0 +1,10 @@
+export async function register() {
+  // The scheduler needs MongoDB and the crawler, so it only runs on Node.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startCrawlScheduler } = await import("@/lib/crawl-scheduler");
+    startCrawlScheduler();
+
+    const { startBotIpRangeImporter } = await import("@/lib/bot-ip-ranges");
+    startBotIpRangeImporter();
+  }
+}
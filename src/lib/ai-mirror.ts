@@ -0,0 +1,196 @@
+import type { ExtractionResult } from "@/lib/extractor";
+
+/**
+ * The structured, LLM-ready JSON document returned by `POST /api/ai-mirror`
+ * and by the mirror for `Accept: application/json`.
+ */
+export function buildAiMirrorJson(result: ExtractionResult, inputUrl?: string) {
+  const canonical = result.canonical ?? result.url ?? inputUrl;
+  const sentences = splitSentences(stripMarkdown(result.markdown));
+
+  return {
+    type: "ai-mirror-page" as const,
+    source_url: result.url ?? inputUrl,
+    mirror_url: buildMirrorUrl(canonical),
+    page_type: determinePageType(result),
+    intent: determineIntent(result),
+    language: result.metadata.language || "en",
+    summary: buildSummary(sentences),
+    key_topics: buildKeyTopics(result),
+    entities: buildEntities(result),
+    structured_content: buildStructuredContent(result.markdown, sentences),
+    actions_available: [] as string[],
+    last_updated: inferLastUpdated(result),
+    canonical,
+  };
+}
+
+/**
+ * Schema.org description of a mirrored page, embedded in the HTML mirror and
+ * served on its own for `application/ld+json`.
+ */
+export function buildMirrorJsonLd(result: ExtractionResult): Record<string, unknown> {
+  const base: Record<string, unknown> = {
+    "@context": "https://schema.org",
+    "@type": result.metadata.contentType === "product" ? "Product" : "Article",
+    headline: result.title,
+    mainEntityOfPage: result.canonical,
+    url: result.canonical,
+    inLanguage: result.metadata.language || "en",
+    datePublished: result.metadata.published,
+    dateModified: result.metadata.updated || result.metadata.published,
+    articleBody: result.markdown,
+  };
+
+  if (result.metadata.author) {
+    base.author = { "@type": "Person", name: result.metadata.author };
+  }
+
+  if (result.metadata.primaryTopics.length) {
+    base.articleSection = result.metadata.primaryTopics;
+    base.keywords = result.metadata.primaryTopics.join(", ");
+  }
+
+  if (result.metadata.entities.length) {
+    base.publisher = {
+      "@type": "Organization",
+      name: result.metadata.entities[0],
+    };
+  }
+
+  return stripEmpty(base);
+}
+
+function stripEmpty(source: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(source).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : Boolean(value),
+    ),
+  );
+}
+
+function buildMirrorUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^www\./i, "");
+    return `https://ai.${host}${parsed.pathname}${parsed.search}`;
+  } catch {
+    return "";
+  }
+}
+
+function stripMarkdown(source: string): string {
+  return source
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\([^\)]+\)/g, "$1")
+    .replace(/[*_~#>-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function buildSummary(sentences: string[]): string {
+  if (!sentences.length) {
+    return "";
+  }
+  return sentences.slice(0, 4).join(" ");
+}
+
+function buildStructuredContent(
+  markdown: string,
+  fallbackSentences: string[],
+): Array<{ section: string; facts: string[] }> {
+  const sections = markdown.split(/\n(?=##\s)/);
+  const structured = sections
+    .map((block, index) => {
+      const trimmed = block.trim();
+      if (!trimmed) {
+        return undefined;
+      }
+      const lines = trimmed.split(/\n+/);
+      let title = lines[0].replace(/^#+\s*/, "").trim();
+      if (!title) {
+        title = index === 0 ? "Overview" : "Section";
+      }
+      const body = stripMarkdown(lines.slice(1).join(" "));
+      const facts = splitSentences(body).slice(0, 5);
+      if (!facts.length) {
+        return undefined;
+      }
+      return { section: title, facts };
+    })
+    .filter((entry): entry is { section: string; facts: string[] } => Boolean(entry));
+
+  if (structured.length) {
+    return structured;
+  }
+
+  const fallbackFacts = fallbackSentences.slice(0, 5);
+  return fallbackFacts.length
+    ? [{ section: "Overview", facts: fallbackFacts }]
+    : [{ section: "Overview", facts: [] }];
+}
+
+function buildKeyTopics(result: ExtractionResult): string[] {
+  if (result.metadata.primaryTopics.length) {
+    return result.metadata.primaryTopics.slice(0, 10);
+  }
+  const headings = result.markdown
+    .split(/\n/)
+    .filter((line) => line.startsWith("##"))
+    .map((line) => line.replace(/^#+\s*/, "").trim())
+    .filter(Boolean);
+  return headings.slice(0, 10);
+}
+
+function buildEntities(result: ExtractionResult) {
+  return {
+    people: result.metadata.author ? [result.metadata.author] : [],
+    organizations: [],
+    technologies: [],
+    locations: [],
+  };
+}
+
+function determinePageType(result: ExtractionResult) {
+  switch (result.metadata.contentType) {
+    case "homepage":
+      return "home";
+    case "product":
+      return "product";
+    case "docs":
+      return "documentation";
+    case "article":
+      return "blog";
+    case "category":
+      return "service";
+    default:
+      return "other";
+  }
+}
+
+function determineIntent(result: ExtractionResult) {
+  switch (result.metadata.contentType) {
+    case "product":
+      return "transactional";
+    case "homepage":
+      return "navigational";
+    default:
+      return "informational";
+  }
+}
+
+function inferLastUpdated(result: ExtractionResult): string {
+  const candidate = result.metadata.updated || result.metadata.published;
+  if (candidate) {
+    return new Date(candidate).toISOString();
+  }
+  return new Date().toISOString();
+}
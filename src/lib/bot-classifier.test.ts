@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { classifyUserAgent, type BotSignature } from "@/lib/bot-classifier";
+
+describe("classifyUserAgent", () => {
+  it.each([
+    [
+      "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.1; +https://openai.com/gptbot",
+      "GPTBot",
+      "ai",
+    ],
+    [
+      "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; ChatGPT-User/1.0; +https://openai.com/bot",
+      "ChatGPT-User",
+      "ai",
+    ],
+    [
+      "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; ClaudeBot/1.0; +claudebot@anthropic.com)",
+      "ClaudeBot",
+      "ai",
+    ],
+    [
+      "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; PerplexityBot/1.0; +https://perplexity.ai/perplexitybot)",
+      "PerplexityBot",
+      "ai",
+    ],
+    ["CCBot/2.0 (https://commoncrawl.org/faq/)", "CCBot", "ai"],
+    [
+      "meta-externalagent/1.1 (+https://developers.facebook.com/docs/sharing/webmasters/crawler)",
+      "Meta-ExternalAgent",
+      "ai",
+    ],
+    [
+      "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+      "Googlebot",
+      "search",
+    ],
+    [
+      "Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.6478.126 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+      "Googlebot",
+      "search",
+    ],
+    [
+      "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm) Chrome/116.0.1938.76 Safari/537.36",
+      "Bingbot",
+      "search",
+    ],
+    [
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_5) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/13.1.1 Safari/605.1.15 (Applebot/0.1; +http://www.apple.com/go/applebot)",
+      "Applebot",
+      "search",
+    ],
+    ["DuckDuckBot/1.1; (+http://duckduckgo.com/duckduckbot.html)", "DuckDuckBot", "search"],
+  ])("classifies %s", (userAgent, name, category) => {
+    expect(classifyUserAgent(userAgent)).toMatchObject({ name, category });
+  });
+
+  it.each([
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36",
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1",
+    "curl/8.7.1",
+    "",
+    null,
+    undefined,
+  ])("treats %s as a human", (userAgent) => {
+    expect(classifyUserAgent(userAgent)).toBeUndefined();
+  });
+
+  it("checks custom signatures in order", () => {
+    const bots: BotSignature[] = [
+      { name: "InternalBot", pattern: /Googlebot-Internal/i, category: "ai" },
+      { name: "Googlebot", pattern: /Googlebot/i, category: "search" },
+    ];
+    expect(classifyUserAgent("Googlebot-Internal/1.0", bots)?.name).toBe("InternalBot");
+    expect(classifyUserAgent("Googlebot/2.1", bots)?.name).toBe("Googlebot");
+  });
+});
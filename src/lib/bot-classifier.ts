@@ -0,0 +1,47 @@
+export type BotCategory = "ai" | "search";
+
+export type BotSignature = {
+  name: string;
+  pattern: RegExp;
+  category: BotCategory;
+};
+
+// Checked in order, so more specific tokens come before generic ones.
+export const DEFAULT_BOTS: BotSignature[] = [
+  { name: "GPTBot", pattern: /GPTBot/i, category: "ai" },
+  { name: "ChatGPT-User", pattern: /ChatGPT-User/i, category: "ai" },
+  { name: "OAI-SearchBot", pattern: /OAI-SearchBot/i, category: "ai" },
+  { name: "ClaudeBot", pattern: /ClaudeBot/i, category: "ai" },
+  { name: "Claude-User", pattern: /Claude-(User|Web)/i, category: "ai" },
+  { name: "anthropic-ai", pattern: /anthropic-ai/i, category: "ai" },
+  { name: "PerplexityBot", pattern: /PerplexityBot/i, category: "ai" },
+  { name: "Perplexity-User", pattern: /Perplexity-User/i, category: "ai" },
+  { name: "CCBot", pattern: /CCBot/i, category: "ai" },
+  { name: "Bytespider", pattern: /Bytespider/i, category: "ai" },
+  { name: "Amazonbot", pattern: /Amazonbot/i, category: "ai" },
+  { name: "Meta-ExternalAgent", pattern: /meta-external(agent|fetcher)/i, category: "ai" },
+  { name: "cohere-ai", pattern: /cohere-ai/i, category: "ai" },
+  { name: "Diffbot", pattern: /Diffbot/i, category: "ai" },
+  { name: "YouBot", pattern: /YouBot/i, category: "ai" },
+  { name: "DuckAssistBot", pattern: /DuckAssistBot/i, category: "ai" },
+  { name: "Googlebot", pattern: /Googlebot/i, category: "search" },
+  { name: "Bingbot", pattern: /bingbot/i, category: "search" },
+  { name: "DuckDuckBot", pattern: /DuckDuckBot/i, category: "search" },
+  { name: "Applebot", pattern: /Applebot/i, category: "search" },
+  { name: "YandexBot", pattern: /YandexBot/i, category: "search" },
+  { name: "Baiduspider", pattern: /Baiduspider/i, category: "search" },
+];
+
+/**
+ * Returns the first known crawler whose token appears in the User-Agent, or
+ * undefined for browsers and unknown agents.
+ */
+export function classifyUserAgent(
+  userAgent: string | null | undefined,
+  bots: BotSignature[] = DEFAULT_BOTS
+): BotSignature | undefined {
+  if (!userAgent) {
+    return undefined;
+  }
+  return bots.find((bot) => bot.pattern.test(userAgent));
+}
@@ -0,0 +1,88 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { clientIpFromHeaders, verifyBotIp } from "@/lib/bot-ip-ranges";
+
+describe("clientIpFromHeaders", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const forwarded = new Headers({ "x-forwarded-for": "6.6.6.6, 10.0.0.1, 192.0.2.10" });
+
+  it("takes the hop appended by the proxy in front of the app", () => {
+    expect(clientIpFromHeaders(forwarded)).toBe("192.0.2.10");
+    expect(clientIpFromHeaders(new Headers({ "x-forwarded-for": " 192.0.2.10 " }))).toBe(
+      "192.0.2.10"
+    );
+  });
+
+  it("counts TRUSTED_PROXY_COUNT hops from the right", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "2");
+    expect(clientIpFromHeaders(forwarded)).toBe("10.0.0.1");
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "5");
+    expect(clientIpFromHeaders(forwarded)).toBe("6.6.6.6");
+  });
+
+  it("falls back to one proxy for an invalid TRUSTED_PROXY_COUNT", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "0");
+    expect(clientIpFromHeaders(forwarded)).toBe("192.0.2.10");
+  });
+
+  it("ignores X-Real-IP unless TRUST_X_REAL_IP is set", () => {
+    const headers = new Headers({ "x-real-ip": "66.249.66.1" });
+    expect(clientIpFromHeaders(headers)).toBeUndefined();
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "1");
+    expect(clientIpFromHeaders(headers)).toBeUndefined();
+
+    vi.stubEnv("TRUST_X_REAL_IP", "true");
+    expect(clientIpFromHeaders(headers)).toBe("66.249.66.1");
+    expect(
+      clientIpFromHeaders(
+        new Headers({ "x-real-ip": "66.249.66.1", "x-forwarded-for": "192.0.2.10" })
+      )
+    ).toBe("192.0.2.10");
+  });
+});
+
+describe("verifyBotIp", () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "bot-ip-ranges-"));
+    writeFileSync(
+      path.join(directory, "googlebot.json"),
+      JSON.stringify({
+        prefixes: [
+          { ipv4Prefix: "66.249.64.0/27" },
+          { ipv6Prefix: "2001:4860:4801:10::/64" },
+          { ipv4Prefix: "not an address" },
+        ],
+      })
+    );
+    vi.stubEnv("BOT_IP_RANGES_DIR", directory);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("matches IPv4 prefixes", () => {
+    expect(verifyBotIp("Googlebot", "66.249.64.31")).toBe("verified");
+    expect(verifyBotIp("Googlebot", "66.249.64.32")).toBe("unverified");
+    expect(verifyBotIp("Googlebot", "::ffff:66.249.64.1")).toBe("verified");
+  });
+
+  it("matches IPv6 prefixes", () => {
+    expect(verifyBotIp("googlebot", "2001:4860:4801:10::1")).toBe("verified");
+    expect(verifyBotIp("Googlebot", "2001:4860:4801:11::1")).toBe("unverified");
+  });
+
+  it("never verifies bots without ranges or requests without an address", () => {
+    expect(verifyBotIp("GPTBot", "66.249.64.1")).toBe("unverified");
+    expect(verifyBotIp("Googlebot", undefined)).toBe("unverified");
+    expect(verifyBotIp("Googlebot", "66.249.64")).toBe("unverified");
+  });
+});
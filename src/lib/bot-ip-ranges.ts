@@ -0,0 +1,184 @@
+import { mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { BlockList, isIP } from "net";
+import path from "path";
+import { readBodyWithLimit, safeFetch } from "@/lib/safe-fetch";
+
+const DEFAULT_RANGES_DIR = "bot-ip-ranges";
+// Range files change rarely; the middleware re-reads the directory at most this often.
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+const IMPORT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const IMPORT_TIMEOUT_MS = 30_000;
+const MAX_RANGE_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Published IP range lists, keyed by bot name. Every source uses the
+ * `{ prefixes: [{ ipv4Prefix } | { ipv6Prefix }] }` format popularised by
+ * googlebot.json; the importer stores each one as `<name>.json` (lowercase).
+ */
+export const BOT_IP_RANGE_SOURCES: Record<string, string> = {
+  GPTBot: "https://openai.com/gptbot.json",
+  "ChatGPT-User": "https://openai.com/chatgpt-user.json",
+  "OAI-SearchBot": "https://openai.com/searchbot.json",
+  PerplexityBot: "https://www.perplexity.com/perplexitybot.json",
+  "Perplexity-User": "https://www.perplexity.com/perplexity-user.json",
+  Googlebot: "https://developers.google.com/static/search/apis/ipranges/googlebot.json",
+  Bingbot: "https://www.bing.com/toolbox/bingbot.json",
+  Applebot: "https://search.developer.apple.com/applebot.json",
+};
+
+export type BotVerification = "verified" | "unverified";
+
+type IpRangeFile = {
+  prefixes?: Array<{ ipv4Prefix?: string; ipv6Prefix?: string }>;
+};
+
+let cached: { loadedAt: number; ranges: Map<string, BlockList> } | undefined;
+
+// One timer per process, kept on globalThis so dev reloads don't stack them.
+const globalForImporter = globalThis as typeof globalThis & {
+  botIpRangeImporter?: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Checks a client IP against the stored ranges for a bot. Bots without a
+ * range file can never be verified.
+ */
+export function verifyBotIp(
+  botName: string,
+  ip: string | undefined
+): BotVerification {
+  const address = ip?.replace(/^::ffff:(?=\d+\.)/i, "");
+  const family = address ? isIP(address) : 0;
+  if (!address || !family) {
+    return "unverified";
+  }
+  const ranges = loadRanges().get(botName.toLowerCase());
+  return ranges?.check(address, family === 6 ? "ipv6" : "ipv4") ? "verified" : "unverified";
+}
+
+/**
+ * The client address as reported by the proxies in front of the app. Each
+ * proxy appends the address it saw to X-Forwarded-For, so with
+ * TRUSTED_PROXY_COUNT proxies (default 1) the client is that many hops from
+ * the right; anything further left was sent by the client and is ignored.
+ * X-Real-IP is client-controlled unless a proxy overwrites it, so it is only
+ * read, when there is no X-Forwarded-For, if TRUST_X_REAL_IP=true says so.
+ */
+export function clientIpFromHeaders(headers: Headers): string | undefined {
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length) {
+    return hops[Math.max(hops.length - trustedProxyCount(), 0)];
+  }
+  if (process.env.TRUST_X_REAL_IP !== "true") {
+    return undefined;
+  }
+  return headers.get("x-real-ip")?.trim() || undefined;
+}
+
+/**
+ * Downloads every list in BOT_IP_RANGE_SOURCES into the ranges directory.
+ * A list that fails to download or parse keeps its previous file.
+ */
+export async function importBotIpRanges(): Promise<{ imported: string[]; failed: string[] }> {
+  const directory = rangesDirectory();
+  mkdirSync(directory, { recursive: true });
+
+  const imported: string[] = [];
+  const failed: string[] = [];
+  for (const [name, url] of Object.entries(BOT_IP_RANGE_SOURCES)) {
+    try {
+      const response = await safeFetch(url, { cache: "no-store" }, { timeoutMs: IMPORT_TIMEOUT_MS });
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => undefined);
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const buffer = await readBodyWithLimit(response, MAX_RANGE_FILE_BYTES);
+      const body = JSON.parse(buffer.toString("utf-8")) as IpRangeFile;
+      if (!Array.isArray(body?.prefixes) || !body.prefixes.length) {
+        throw new Error("No prefixes in range list");
+      }
+      const file = path.join(directory, `${name.toLowerCase()}.json`);
+      writeFileSync(`${file}.tmp`, JSON.stringify(body, null, 2));
+      renameSync(`${file}.tmp`, file);
+      imported.push(name);
+    } catch (error) {
+      console.error(`Failed to import IP ranges for ${name} from ${url}:`, error);
+      failed.push(name);
+    }
+  }
+
+  cached = undefined;
+  return { imported, failed };
+}
+
+/**
+ * Imports the range lists now and then once a day. Set
+ * BOT_IP_RANGES_AUTO_IMPORT=false to manage the files by other means.
+ */
+export function startBotIpRangeImporter() {
+  if (globalForImporter.botIpRangeImporter || process.env.BOT_IP_RANGES_AUTO_IMPORT === "false") {
+    return;
+  }
+  globalForImporter.botIpRangeImporter = setInterval(() => {
+    void importBotIpRanges();
+  }, IMPORT_INTERVAL_MS);
+  globalForImporter.botIpRangeImporter.unref?.();
+  void importBotIpRanges();
+}
+
+function trustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(count) && count >= 1 ? count : 1;
+}
+
+function rangesDirectory(): string {
+  return path.resolve(process.env.BOT_IP_RANGES_DIR || DEFAULT_RANGES_DIR);
+}
+
+function loadRanges(): Map<string, BlockList> {
+  if (cached && Date.now() - cached.loadedAt < RELOAD_INTERVAL_MS) {
+    return cached.ranges;
+  }
+
+  const ranges = new Map<string, BlockList>();
+  const directory = rangesDirectory();
+  let files: string[] = [];
+  try {
+    files = readdirSync(directory).filter((file) => file.endsWith(".json"));
+  } catch {
+    // No ranges directory yet: nothing can be verified.
+  }
+
+  for (const file of files) {
+    try {
+      const body = JSON.parse(readFileSync(path.join(directory, file), "utf-8")) as IpRangeFile;
+      const list = new BlockList();
+      for (const prefix of body.prefixes ?? []) {
+        addPrefix(list, prefix.ipv4Prefix ?? prefix.ipv6Prefix);
+      }
+      ranges.set(path.basename(file, ".json").toLowerCase(), list);
+    } catch (error) {
+      console.error(`Failed to load bot IP ranges from ${file}:`, error);
+    }
+  }
+
+  cached = { loadedAt: Date.now(), ranges };
+  return ranges;
+}
+
+function addPrefix(list: BlockList, prefix: string | undefined) {
+  const [address, bits] = prefix?.trim().split("/") ?? [];
+  const family = address ? isIP(address) : 0;
+  if (!family) {
+    return;
+  }
+  const type = family === 6 ? "ipv6" : "ipv4";
+  const maxLength = family === 6 ? 128 : 32;
+  const length = bits === undefined ? maxLength : Number(bits);
+  if (Number.isInteger(length) && length >= 0 && length <= maxLength) {
+    list.addSubnet(address, length, type);
+  }
+}
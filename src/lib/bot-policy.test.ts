@@ -0,0 +1,114 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/bot-ip-ranges", () => ({
+  verifyBotIp: (_bot: string, ip: string | undefined) =>
+    ip === "66.249.66.1" ? "verified" : "unverified",
+}));
+
+const { resolveBotPolicy } = await import("@/lib/bot-policy");
+
+const GOOGLEBOT =
+  "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)";
+const GPTBOT =
+  "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.1; +https://openai.com/gptbot";
+
+const CLAUDEBOT =
+  "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; ClaudeBot/1.0; +claudebot@anthropic.com)";
+const BINGBOT =
+  "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm) Chrome/116.0.1938.76 Safari/537.36";
+const HUMAN =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36";
+
+let directory: string;
+
+beforeAll(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "bot-policy-"));
+  const file = path.join(directory, "bot-policies.json");
+  writeFileSync(
+    file,
+    JSON.stringify({
+      sites: {
+        "verified.com": { requireVerification: true },
+        "strict.com": { requireVerification: true, unverified: "block" },
+        "open.com": {},
+        "precedence.com": {
+          default: "block",
+          categories: { ai: "pass-through" },
+          bots: { gptbot: "mirror", Bingbot: "unknown-policy" },
+        },
+      },
+      bots: [{ name: "AcmeBot", pattern: "acme-?bot", category: "search" }],
+    })
+  );
+  vi.stubEnv("BOT_POLICY_FILE", file);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("resolveBotPolicy", () => {
+  it("ignores hosts that are not registered", () => {
+    expect(resolveBotPolicy("example.com", GPTBOT)).toBeUndefined();
+    expect(resolveBotPolicy(undefined, GPTBOT)).toBeUndefined();
+  });
+
+  it("passes humans through on registered hosts", () => {
+    expect(resolveBotPolicy("open.com", HUMAN)).toEqual({ site: "open.com", policy: "pass-through" });
+  });
+
+  it("normalises www. and ports in the host", () => {
+    expect(resolveBotPolicy("WWW.Open.com:443", GPTBOT)?.site).toBe("open.com");
+  });
+
+  it.each([
+    ["the bot name, matched case-insensitively", GPTBOT, "mirror"],
+    ["the category when the bot has no rule", CLAUDEBOT, "pass-through"],
+    ["the site default when neither matches", GOOGLEBOT, "block"],
+    ["the site default for unknown policy names", BINGBOT, "block"],
+    ["the site default for custom bots", "AcmeBot/1.0", "block"],
+  ])("uses %s", (_case, userAgent, policy) => {
+    expect(resolveBotPolicy("precedence.com", userAgent)?.policy).toBe(policy);
+  });
+
+  it("mirrors bots by default", () => {
+    expect(resolveBotPolicy("open.com", CLAUDEBOT)).toMatchObject({
+      bot: { name: "ClaudeBot", category: "ai" },
+      policy: "mirror",
+    });
+    expect(resolveBotPolicy("open.com", "acmebot/2.0")?.bot?.name).toBe("AcmeBot");
+  });
+});
+
+describe("resolveBotPolicy with requireVerification", () => {
+  it("mirrors bots whose IP is in their published ranges", () => {
+    expect(resolveBotPolicy("verified.com", GOOGLEBOT, "66.249.66.1")).toMatchObject({
+      verification: "verified",
+      policy: "mirror",
+    });
+  });
+
+  it("passes unverified bots through by default", () => {
+    expect(resolveBotPolicy("verified.com", GOOGLEBOT, "6.6.6.6")).toMatchObject({
+      verification: "unverified",
+      policy: "pass-through",
+    });
+    expect(resolveBotPolicy("verified.com", GPTBOT, undefined)?.policy).toBe("pass-through");
+  });
+
+  it("applies the site's unverified policy", () => {
+    expect(resolveBotPolicy("strict.com", GOOGLEBOT, "6.6.6.6")?.policy).toBe("block");
+    expect(resolveBotPolicy("strict.com", GOOGLEBOT, "66.249.66.1")?.policy).toBe("mirror");
+  });
+
+  it("mirrors unverified bots on sites that do not require verification", () => {
+    expect(resolveBotPolicy("open.com", GOOGLEBOT, "6.6.6.6")).toMatchObject({
+      verification: "unverified",
+      policy: "mirror",
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { readFileSync, statSync } from "fs";
+import path from "path";
+import {
+  classifyUserAgent,
+  DEFAULT_BOTS,
+  type BotCategory,
+  type BotSignature,
+} from "@/lib/bot-classifier";
+import { verifyBotIp, type BotVerification } from "@/lib/bot-ip-ranges";
+
+const DEFAULT_POLICY_FILE = "bot-policies.json";
+const POLICIES = new Set(["mirror", "pass-through", "block"]);
+
+export type BotPolicy = "mirror" | "pass-through" | "block";
+
+type SitePolicyConfig = {
+  default?: BotPolicy;
+  categories?: Partial<Record<BotCategory, BotPolicy>>;
+  bots?: Record<string, BotPolicy>;
+  // Bots whose IP is not in their published ranges get `unverified` instead of the mirror.
+  requireVerification?: boolean;
+  unverified?: BotPolicy;
+  // Agents admitted by the mirror host's robots.txt.
+  robots?: { allow?: string[]; disallowOthers?: boolean };
+};
+
+type BotPolicyFile = {
+  bots?: Array<{ name: string; pattern: string; category?: BotCategory }>;
+  sites?: Record<string, SitePolicyConfig>;
+};
+
+type LoadedPolicies = {
+  bots: BotSignature[];
+  sites: Map<string, SitePolicyConfig>;
+};
+
+export type BotPolicyDecision = {
+  site: string;
+  bot?: BotSignature;
+  verification?: BotVerification;
+  policy: BotPolicy;
+};
+
+export type MirrorRobotsPolicy = {
+  allow: string[];
+  disallow: string[];
+  disallowOthers: boolean;
+};
+
+// The policy file is re-read only when its modification time changes.
+let cached: { mtimeMs: number; policies: LoadedPolicies } | undefined;
+
+/**
+ * Decides how a request to a registered source domain is handled. Returns
+ * undefined when the host is not registered; humans always pass through.
+ * Bot policies are looked up by bot name, then category, then the site default
+ * (which itself defaults to "mirror"). Sites that require verification only
+ * mirror bots whose client IP is in the bot's published ranges.
+ */
+export function resolveBotPolicy(
+  host: string | null | undefined,
+  userAgent: string | null | undefined,
+  clientIp?: string
+): BotPolicyDecision | undefined {
+  const site = siteFromHost(host);
+  const policies = loadPolicies();
+  const config = site ? policies.sites.get(site) : undefined;
+  if (!config) {
+    return undefined;
+  }
+
+  const bot = classifyUserAgent(userAgent, policies.bots);
+  if (!bot) {
+    return { site, policy: "pass-through" };
+  }
+
+  const policy = policyForBot(config, bot);
+  const verification = verifyBotIp(bot.name, clientIp);
+  return {
+    site,
+    bot,
+    verification,
+    policy:
+      policy === "mirror" && config.requireVerification && verification !== "verified"
+        ? config.unverified ?? "pass-through"
+        : policy,
+  };
+}
+
+/**
+ * Whether the bot policy file registers `host` as a source domain.
+ */
+export function isRegisteredSite(host: string | null | undefined): boolean {
+  const site = siteFromHost(host);
+  return Boolean(site) && loadPolicies().sites.has(site);
+}
+
+/**
+ * Which agents the mirror host's robots.txt admits for a site. By default all
+ * known AI crawlers are allowed and other agents are not restricted; bots the
+ * site's policy blocks are always disallowed.
+ */
+export function getMirrorRobotsPolicy(site: string): MirrorRobotsPolicy {
+  const policies = loadPolicies();
+  const config = policies.sites.get(site.toLowerCase().replace(/^www\./, "")) ?? {};
+  const disallow = policies.bots
+    .filter((bot) => policyForBot(config, bot) === "block")
+    .map((bot) => bot.name);
+  const allow = (
+    config.robots?.allow ??
+    policies.bots.filter((bot) => bot.category === "ai").map((bot) => bot.name)
+  ).filter((name) => !disallow.includes(name));
+
+  return {
+    allow: Array.from(new Set(allow)),
+    disallow: Array.from(new Set(disallow)),
+    disallowOthers: config.robots?.disallowOthers === true,
+  };
+}
+
+function siteFromHost(host: string | null | undefined): string {
+  return (host ?? "")
+    .split(",")[0]
+    .trim()
+    .toLowerCase()
+    .replace(/:\d+$/, "")
+    .replace(/^www\./, "");
+}
+
+// Bot name first, then category, then the site default.
+function policyForBot(config: SitePolicyConfig, bot: BotSignature): BotPolicy {
+  const byName = Object.entries(config.bots ?? {}).find(
+    ([name]) => name.toLowerCase() === bot.name.toLowerCase()
+  )?.[1];
+  return byName ?? config.categories?.[bot.category] ?? config.default ?? "mirror";
+}
+
+function loadPolicies(): LoadedPolicies {
+  const file = path.resolve(process.env.BOT_POLICY_FILE || DEFAULT_POLICY_FILE);
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(file).mtimeMs;
+  } catch {
+    // No policy file: no site is registered for bifurcation.
+    return { bots: DEFAULT_BOTS, sites: new Map() };
+  }
+  if (cached?.mtimeMs === mtimeMs) {
+    return cached.policies;
+  }
+
+  let policies: LoadedPolicies = { bots: DEFAULT_BOTS, sites: new Map() };
+  try {
+    policies = parsePolicies(JSON.parse(readFileSync(file, "utf-8")));
+  } catch (error) {
+    console.error(`Failed to load bot policies from ${file}:`, error);
+  }
+  cached = { mtimeMs, policies };
+  return policies;
+}
+
+function parsePolicies(raw: BotPolicyFile): LoadedPolicies {
+  // Custom bots are checked before the built-in list so they can override it.
+  const custom = (raw.bots ?? []).flatMap<BotSignature>((bot) => {
+    if (!bot?.name || !bot.pattern) {
+      return [];
+    }
+    return [
+      {
+        name: bot.name,
+        pattern: new RegExp(bot.pattern, "i"),
+        category: bot.category === "search" ? "search" : "ai",
+      },
+    ];
+  });
+
+  const sites = new Map<string, SitePolicyConfig>();
+  for (const [domain, config] of Object.entries(raw.sites ?? {})) {
+    sites.set(domain.trim().toLowerCase().replace(/^www\./, ""), {
+      default: toPolicy(config?.default),
+      categories: {
+        ai: toPolicy(config?.categories?.ai),
+        search: toPolicy(config?.categories?.search),
+      },
+      bots: Object.fromEntries(
+        Object.entries(config?.bots ?? {}).flatMap(([name, policy]) => {
+          const value = toPolicy(policy);
+          return value ? [[name, value]] : [];
+        })
+      ),
+      requireVerification: config?.requireVerification === true,
+      unverified: toPolicy(config?.unverified),
+      robots: {
+        allow: Array.isArray(config?.robots?.allow)
+          ? config.robots.allow.filter((name): name is string => typeof name === "string")
+          : undefined,
+        disallowOthers: config?.robots?.disallowOthers === true,
+      },
+    });
+  }
+
+  return { bots: [...custom, ...DEFAULT_BOTS], sites };
+}
+
+// Unknown policy names are ignored rather than guessed at.
+function toPolicy(value: unknown): BotPolicy | undefined {
+  return typeof value === "string" && POLICIES.has(value) ? (value as BotPolicy) : undefined;
+}
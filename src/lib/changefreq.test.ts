@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { estimateChangeFrequencies, type LastmodObservation } from "@/lib/changefreq";
+import type { PageEntry } from "@/lib/crawler";
+
+const generatedAt = "2024-10-31T00:00:00Z";
+const url = "https://example.com/post";
+
+function page(lastmod?: string): PageEntry {
+  return { url, ai_url: "https://ai.example.com/post", type: "article", priority: 0.6, lastmod };
+}
+
+function estimate(lastmod: string | undefined, history: Array<string | undefined>) {
+  const observations: LastmodObservation[] = history.map((value) => ({ url, lastmod: value }));
+  return estimateChangeFrequencies([page(lastmod)], generatedAt, observations).get(url);
+}
+
+describe("estimateChangeFrequencies", () => {
+  it.each([
+    ["hourly", "2024-10-30T23:00:00Z", ["2024-10-30T21:00:00Z", "2024-10-30T22:00:00Z"]],
+    ["daily", "2024-10-30T00:00:00Z", ["2024-10-28T00:00:00Z", "2024-10-29T00:00:00Z"]],
+    ["weekly", "2024-10-28T00:00:00Z", ["2024-10-14T00:00:00Z", "2024-10-21T00:00:00Z"]],
+    ["monthly", "2024-10-01T00:00:00Z", ["2024-08-01T00:00:00Z", "2024-09-01T00:00:00Z"]],
+    ["yearly", "2024-01-01T00:00:00Z", ["2023-01-01T00:00:00Z"]],
+  ])("derives %s from the average gap between changes", (frequency, lastmod, history) => {
+    expect(estimate(lastmod, history)).toBe(frequency);
+  });
+
+  it("uses the time since the latest change when the page went quiet", () => {
+    // Changed daily until October 1st, then nothing for a month.
+    const history = ["2024-09-29T00:00:00Z", "2024-09-30T00:00:00Z"];
+    expect(estimate("2024-10-01T00:00:00Z", history)).toBe("monthly");
+  });
+
+  it("counts repeated lastmods once", () => {
+    const same = "2024-10-30T12:00:00Z";
+    expect(estimate(same, [same, same])).toBe("daily");
+  });
+
+  it("estimates from a single sample by its age", () => {
+    expect(estimate(undefined, ["2024-10-27T00:00:00Z"])).toBe("weekly");
+    expect(estimate("2024-10-30T23:30:00Z", [])).toBeUndefined();
+  });
+
+  it("skips pages without usable history", () => {
+    expect(estimate("2024-10-01T00:00:00Z", [])).toBeUndefined();
+    expect(estimate(undefined, [undefined, "not a date"])).toBeUndefined();
+  });
+
+  it("skips pages whose only change is at or after the crawl", () => {
+    expect(estimate(generatedAt, [generatedAt])).toBeUndefined();
+    expect(estimate("2024-11-02T00:00:00Z", [])).toBeUndefined();
+  });
+
+  it("ignores history recorded for other URLs", () => {
+    const estimates = estimateChangeFrequencies([page()], generatedAt, [
+      { url: "https://example.com/other", lastmod: "2024-01-01T00:00:00Z" },
+    ]);
+    expect(estimates.size).toBe(0);
+  });
+});
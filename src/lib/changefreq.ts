@@ -0,0 +1,77 @@
+import type { ChangeFrequency, PageEntry } from "@/lib/crawler";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Upper bounds (average time between changes) for each changefreq value.
+const FREQUENCY_BANDS: Array<[number, ChangeFrequency]> = [
+  [2 * HOUR_MS, "hourly"],
+  [2 * DAY_MS, "daily"],
+  [10 * DAY_MS, "weekly"],
+  [45 * DAY_MS, "monthly"],
+];
+
+export type LastmodObservation = {
+  url: string;
+  lastmod?: string;
+};
+
+/**
+ * Estimates `<changefreq>` from the lastmod values recorded for each URL in
+ * earlier crawls of the same site. The estimate is the average gap between
+ * distinct lastmods, but never shorter than the time since the latest change,
+ * so pages that went quiet drift towards "yearly".
+ */
+export function estimateChangeFrequencies(
+  pages: PageEntry[],
+  generatedAt: string,
+  history: LastmodObservation[]
+): Map<string, ChangeFrequency> {
+  const observations = new Map<string, LastmodObservation[]>();
+  for (const entry of history) {
+    const list = observations.get(entry.url) ?? [];
+    list.push(entry);
+    observations.set(entry.url, list);
+  }
+
+  const estimates = new Map<string, ChangeFrequency>();
+  for (const page of pages) {
+    const past = observations.get(page.url);
+    if (!past?.length) {
+      continue;
+    }
+
+    // Crawls that fell back to their own timestamp say nothing about changes.
+    const changes = new Set<number>();
+    for (const lastmod of [...past.map((entry) => entry.lastmod), page.lastmod]) {
+      const time = Date.parse(lastmod ?? "");
+      if (!Number.isNaN(time)) {
+        changes.add(time);
+      }
+    }
+    if (!changes.size) {
+      continue;
+    }
+
+    const sorted = Array.from(changes).sort((a, b) => a - b);
+    const latest = sorted[sorted.length - 1];
+    const average = sorted.length > 1 ? (latest - sorted[0]) / (sorted.length - 1) : 0;
+    const interval = Math.max(average, Date.parse(generatedAt) - latest);
+    if (!Number.isFinite(interval) || interval <= 0) {
+      continue;
+    }
+
+    estimates.set(page.url, toChangeFrequency(interval));
+  }
+
+  return estimates;
+}
+
+function toChangeFrequency(intervalMs: number): ChangeFrequency {
+  for (const [limit, frequency] of FREQUENCY_BANDS) {
+    if (intervalMs <= limit) {
+      return frequency;
+    }
+  }
+  return "yearly";
+}
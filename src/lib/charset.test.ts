@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { charsetFromContentType, decodeHtml, decodeText } from "@/lib/charset";
+
+const ascii = (text: string) => Array.from(Buffer.from(text, "latin1"));
+const bytes = (...parts: Array<string | number[]>) =>
+  Uint8Array.from(parts.flatMap((part) => (typeof part === "string" ? ascii(part) : part)));
+
+// "日本語" in Shift_JIS and "café €" in windows-1252.
+const SHIFT_JIS = [0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea];
+const WINDOWS_1252 = [0x63, 0x61, 0x66, 0xe9, 0x20, 0x80];
+
+describe("decodeHtml", () => {
+  it("decodes Shift_JIS declared by <meta charset>", () => {
+    const html = bytes(
+      '<html><head><meta charset="Shift_JIS"></head><body>',
+      SHIFT_JIS,
+      "</body>"
+    );
+    const decoded = decodeHtml(html, "text/html");
+    expect(decoded.encoding).toBe("shift_jis");
+    expect(decoded.text).toContain("日本語");
+  });
+
+  it("decodes windows-1252 declared by http-equiv", () => {
+    const html = bytes(
+      "<meta http-equiv=\"Content-Type\" content=\"text/html; charset=windows-1252\"><p>",
+      WINDOWS_1252
+    );
+    const decoded = decodeHtml(html);
+    expect(decoded.encoding).toBe("windows-1252");
+    expect(decoded.text).toContain("café €");
+  });
+
+  it("prefers the Content-Type charset over <meta>", () => {
+    const html = bytes('<meta charset="utf-8"><p>', SHIFT_JIS);
+    const decoded = decodeHtml(html, 'text/html; charset="Shift_JIS"');
+    expect(decoded.encoding).toBe("shift_jis");
+    expect(decoded.text).toContain("日本語");
+  });
+
+  it("prefers a byte order mark over the header and <meta>", () => {
+    const html = bytes([0xef, 0xbb, 0xbf], '<meta charset="windows-1252"><p>caf', [0xc3, 0xa9]);
+    const decoded = decodeHtml(html, "text/html; charset=shift_jis");
+    expect(decoded.encoding).toBe("utf-8");
+    expect(decoded.text).toBe('<meta charset="windows-1252"><p>café');
+  });
+
+  it("skips unknown labels and treats a declared UTF-16 <meta> as UTF-8", () => {
+    const declared = bytes('<meta charset="windows-1252"><p>', WINDOWS_1252);
+    expect(decodeHtml(declared, "text/html; charset=bogus").encoding).toBe("windows-1252");
+
+    const utf16 = bytes('<meta charset="utf-16le"><p>caf', [0xc3, 0xa9]);
+    expect(decodeHtml(utf16).text).toContain("café");
+  });
+
+  it("only prescans the first 1024 bytes and falls back to UTF-8", () => {
+    const late = bytes(" ".repeat(1024), '<meta charset="shift_jis">');
+    expect(decodeHtml(late).encoding).toBe("utf-8");
+    expect(decodeHtml(bytes("<p>plain</p>")).encoding).toBe("utf-8");
+  });
+});
+
+describe("decodeText", () => {
+  it("uses the BOM, then the header charset, and ignores <meta>", () => {
+    expect(decodeText(bytes([0xff, 0xfe], [0x68, 0x00, 0x69, 0x00])).text).toBe("hi");
+    expect(decodeText(bytes(WINDOWS_1252), "text/plain; charset=windows-1252").text).toBe("café €");
+    expect(decodeText(bytes('<meta charset="shift_jis">')).encoding).toBe("utf-8");
+  });
+});
+
+describe("charsetFromContentType", () => {
+  it("reads quoted and unquoted parameters", () => {
+    expect(charsetFromContentType("text/html; charset=ISO-8859-1")).toBe("ISO-8859-1");
+    expect(charsetFromContentType("text/html;charset='utf-8'")).toBe("utf-8");
+    expect(charsetFromContentType("text/html")).toBeUndefined();
+    expect(charsetFromContentType(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+// The HTML spec limits the <meta charset> prescan to the first 1024 bytes.
+const PRESCAN_BYTES = 1024;
+
+const BOMS: Array<[number[], string]> = [
+  [[0xef, 0xbb, 0xbf], "utf-8"],
+  [[0xfe, 0xff], "utf-16be"],
+  [[0xff, 0xfe], "utf-16le"],
+];
+
+// windows-1252 characters for bytes 0x80-0x9F. Some Node releases decode the
+// label as ISO-8859-1, leaving C1 controls where these belong.
+const WINDOWS_1252_C1 =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+export type DecodedDocument = {
+  text: string;
+  // WHATWG encoding name, e.g. "utf-8", "shift_jis", "windows-1252".
+  encoding: string;
+};
+
+/**
+ * Decodes a fetched HTML document using the first usable charset from its
+ * byte order mark, the Content-Type header, then `<meta charset>` or
+ * `<meta http-equiv="Content-Type">`. Falls back to UTF-8.
+ */
+export function decodeHtml(
+  buffer: ArrayBuffer | Uint8Array,
+  contentType?: string | null
+): DecodedDocument {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const label =
+    sniffBom(bytes) ??
+    usableLabel(charsetFromContentType(contentType)) ??
+    metaLabel(bytes) ??
+    "utf-8";
+
+  return decode(bytes, label);
+}
+
+/**
+ * Decodes a fetched text document (Markdown, plain text, JSON) using its byte
+ * order mark or the Content-Type charset. Falls back to UTF-8, which JSON
+ * requires anyway.
+ */
+export function decodeText(
+  buffer: ArrayBuffer | Uint8Array,
+  contentType?: string | null
+): DecodedDocument {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const label = sniffBom(bytes) ?? usableLabel(charsetFromContentType(contentType)) ?? "utf-8";
+
+  return decode(bytes, label);
+}
+
+export function charsetFromContentType(contentType: string | null | undefined): string | undefined {
+  const match = contentType?.match(/charset\s*=\s*["']?([^"';\s]+)/i);
+  return match?.[1];
+}
+
+function decode(bytes: Uint8Array, label: string): DecodedDocument {
+  // The BOM is stripped by TextDecoder itself.
+  const decoder = new TextDecoder(label, { fatal: false });
+  let text = decoder.decode(bytes);
+  if (decoder.encoding === "windows-1252") {
+    text = text.replace(/[\u0080-\u009f]/g, (char) => WINDOWS_1252_C1[char.charCodeAt(0) - 0x80]);
+  }
+  return { text, encoding: decoder.encoding };
+}
+
+function sniffBom(bytes: Uint8Array): string | undefined {
+  return BOMS.find(([bom]) => bom.every((byte, index) => bytes[index] === byte))?.[1];
+}
+
+// A document that could declare UTF-16 in ASCII bytes is not UTF-16.
+function metaLabel(bytes: Uint8Array): string | undefined {
+  const label = usableLabel(charsetFromMeta(bytes));
+  return label?.startsWith("utf-16") ? "utf-8" : label;
+}
+
+function charsetFromMeta(bytes: Uint8Array): string | undefined {
+  // Labels are ASCII, so a byte-per-character view is enough to find them.
+  const head = Buffer.from(bytes.subarray(0, PRESCAN_BYTES)).toString("latin1");
+  for (const tag of head.match(/<meta\b[^>]*>/gi) ?? []) {
+    const direct = tag.match(/\bcharset\s*=\s*["']?\s*([^"'\s/>;]+)/i)?.[1];
+    if (direct && !/\bcontent\s*=/i.test(tag)) {
+      return direct;
+    }
+    if (/\bhttp-equiv\s*=\s*["']?content-type/i.test(tag)) {
+      const content = tag.match(/\bcontent\s*=\s*("([^"]*)"|'([^']*)'|[^\s>]+)/i);
+      const charset = charsetFromContentType(content?.[2] ?? content?.[3] ?? content?.[1]);
+      if (charset) {
+        return charset;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Unknown labels are skipped so the next source gets a chance.
+function usableLabel(label: string | undefined): string | undefined {
+  if (!label) {
+    return undefined;
+  }
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,75 @@
+import type { CrawlProgress } from "@/lib/crawler";
+import type { CrawlArtifacts, CrawlJobSnapshot } from "@/lib/crawl-jobs";
+
+export type { CrawlProgress };
+
+type CrawlRequest = {
+  url: string;
+  maxDepth: number;
+  includeImages?: boolean;
+  includeVideos?: boolean;
+  includePdfs?: boolean;
+};
+
+/**
+ * Browser helper that starts a crawl job, follows its progress stream and
+ * resolves with the finished sitemap payload.
+ */
+export async function runCrawl(
+  request: CrawlRequest,
+  onProgress: (progress: CrawlProgress) => void
+): Promise<CrawlArtifacts> {
+  const jobResponse = await fetch("/api/sitemap", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  const job = await jobResponse.json().catch(() => ({}));
+  if (!jobResponse.ok || !job?.sessionId) {
+    throw new Error(job?.error ?? "Unable to generate sitemap.");
+  }
+
+  await streamCrawlProgress(job.sessionId, onProgress);
+  return fetchCrawlResult(job.sessionId);
+}
+
+export function streamCrawlProgress(
+  sessionId: string,
+  onProgress: (progress: CrawlProgress) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(
+      `/api/sitemap/progress?sessionId=${encodeURIComponent(sessionId)}`
+    );
+    const read = (event: Event): CrawlJobSnapshot =>
+      JSON.parse((event as MessageEvent).data);
+
+    source.addEventListener("progress", (event) => {
+      onProgress(read(event).progress);
+    });
+    source.addEventListener("complete", (event) => {
+      onProgress(read(event).progress);
+      source.close();
+      resolve();
+    });
+    source.addEventListener("failed", (event) => {
+      source.close();
+      reject(new Error(read(event).error ?? "Crawl failed."));
+    });
+    source.onerror = () => {
+      source.close();
+      reject(new Error("Lost connection to the crawl progress stream."));
+    };
+  });
+}
+
+export async function fetchCrawlResult(sessionId: string): Promise<CrawlArtifacts> {
+  const response = await fetch(
+    `/api/sitemap?sessionId=${encodeURIComponent(sessionId)}`
+  );
+  const payload = await response.json().catch(() => ({}));
+  if (response.status !== 200) {
+    throw new Error(payload?.error ?? "Unable to load the crawl result.");
+  }
+  return payload as CrawlArtifacts;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { buildDiffMarkdown, diffCrawls, type DiffPage } from "@/lib/crawl-diff";
+
+function page(path: string, overrides: Partial<DiffPage> = {}): DiffPage {
+  return {
+    url: `https://example.com${path}`,
+    ai_url: `https://ai.example.com${path}`,
+    type: "article",
+    priority: 0.6,
+    ...overrides,
+  };
+}
+
+const from = {
+  sessionId: "s1",
+  generatedAt: "2024-10-01T00:00:00.000Z",
+  pages: [
+    page("/", { type: "homepage", priority: 1 }),
+    page("/same"),
+    page("/retyped"),
+    page("/reprioritised"),
+    page("/gone"),
+    page("/product", { sourceUrls: ["https://example.com/product?ref=nav"] }),
+  ],
+};
+
+const to = {
+  sessionId: "s2",
+  generatedAt: "2024-10-08T00:00:00.000Z",
+  pages: [
+    page("/", { type: "homepage", priority: 1 }),
+    page("/same"),
+    page("/retyped", { type: "docs" }),
+    page("/reprioritised", { priority: 0.8 }),
+    page("/new", { type: "product" }),
+    page("/product"),
+    page("/products/item", { sourceUrls: ["https://example.com/product?ref=nav"] }),
+  ],
+};
+
+describe("diffCrawls", () => {
+  const diff = diffCrawls("example.com", from, to);
+
+  it("lists pages only in the newer crawl as added", () => {
+    expect(diff.added.map((entry) => entry.url)).toEqual([
+      "https://example.com/new",
+      "https://example.com/products/item",
+    ]);
+    expect(diff.added[0]).toEqual({
+      url: "https://example.com/new",
+      ai_url: "https://ai.example.com/new",
+      type: "product",
+      priority: 0.6,
+    });
+  });
+
+  it("lists pages only in the older crawl as removed", () => {
+    expect(diff.removed.map((entry) => entry.url)).toEqual(["https://example.com/gone"]);
+  });
+
+  it("reports type, priority and canonical changes for pages in both", () => {
+    expect(diff.retyped).toEqual([
+      { url: "https://example.com/retyped", from: "article", to: "docs" },
+    ]);
+    expect(diff.priority_changes).toEqual([
+      { url: "https://example.com/reprioritised", from: 0.6, to: 0.8 },
+    ]);
+    expect(diff.canonical_changes).toEqual([
+      {
+        source_url: "https://example.com/product?ref=nav",
+        from: "https://example.com/product",
+        to: "https://example.com/products/item",
+      },
+    ]);
+  });
+
+  it("leaves unchanged pages out of every list", () => {
+    const mentioned = [
+      ...diff.added.map((entry) => entry.url),
+      ...diff.removed.map((entry) => entry.url),
+      ...diff.retyped.map((change) => change.url),
+      ...diff.priority_changes.map((change) => change.url),
+      ...diff.canonical_changes.map((change) => change.source_url),
+    ];
+    expect(mentioned).not.toContain("https://example.com/");
+    expect(mentioned).not.toContain("https://example.com/same");
+  });
+
+  it("reports session details and page counts", () => {
+    expect(diff.from).toEqual({ sessionId: "s1", generated_at: from.generatedAt, page_count: 6 });
+    expect(diff.to).toEqual({ sessionId: "s2", generated_at: to.generatedAt, page_count: 7 });
+  });
+
+  it("finds nothing between identical crawls", () => {
+    const same = diffCrawls("example.com", from, { ...from, sessionId: "s1b" });
+    expect(same).toMatchObject({
+      added: [],
+      removed: [],
+      retyped: [],
+      priority_changes: [],
+      canonical_changes: [],
+    });
+  });
+});
+
+describe("buildDiffMarkdown", () => {
+  it("renders a table per non-empty section", () => {
+    const markdown = buildDiffMarkdown(diffCrawls("example.com", from, to));
+    expect(markdown).toContain("# Crawl Diff for example.com");
+    expect(markdown).toContain("## Added Pages (2)");
+    expect(markdown).toContain("| --- | --- | --- | --- | --- |");
+    expect(markdown).toContain("## Priority Changes (1)");
+    expect(markdown).toMatch(/\| 1 \| .*reprioritised.* \| 0\.60 \| 0\.80 \|/);
+  });
+
+  it("marks empty sections", () => {
+    const markdown = buildDiffMarkdown(diffCrawls("example.com", from, from));
+    expect(markdown.match(/_No changes\._/g)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,175 @@
+import { formatMarkdownLink } from "@/lib/crawler";
+
+export type DiffPage = {
+  url: string;
+  ai_url: string;
+  type: string;
+  priority: number;
+  sourceUrls?: string[];
+};
+
+export type DiffSession = {
+  sessionId: string;
+  generatedAt: string;
+  pages: DiffPage[];
+};
+
+export type DiffPageEntry = {
+  url: string;
+  ai_url: string;
+  type: string;
+  priority: number;
+};
+
+export type CrawlDiff = {
+  site: string;
+  from: { sessionId: string; generated_at: string; page_count: number };
+  to: { sessionId: string; generated_at: string; page_count: number };
+  added: DiffPageEntry[];
+  removed: DiffPageEntry[];
+  retyped: { url: string; from: string; to: string }[];
+  priority_changes: { url: string; from: number; to: number }[];
+  canonical_changes: { source_url: string; from: string; to: string }[];
+};
+
+/**
+ * Compares two crawls of the same site. Pages are matched by canonical URL;
+ * canonical changes are detected through the fetched URLs recorded for each
+ * page, so a page that now points its canonical elsewhere is reported as such.
+ */
+export function diffCrawls(site: string, from: DiffSession, to: DiffSession): CrawlDiff {
+  const before = new Map(from.pages.map((page) => [page.url, page]));
+  const after = new Map(to.pages.map((page) => [page.url, page]));
+
+  const added = to.pages.filter((page) => !before.has(page.url)).map(toEntry);
+  const removed = from.pages.filter((page) => !after.has(page.url)).map(toEntry);
+
+  const retyped: CrawlDiff["retyped"] = [];
+  const priorityChanges: CrawlDiff["priority_changes"] = [];
+  for (const page of to.pages) {
+    const previous = before.get(page.url);
+    if (!previous) {
+      continue;
+    }
+    if (previous.type !== page.type) {
+      retyped.push({ url: page.url, from: previous.type, to: page.type });
+    }
+    if (previous.priority !== page.priority) {
+      priorityChanges.push({ url: page.url, from: previous.priority, to: page.priority });
+    }
+  }
+
+  const canonicalBefore = canonicalMap(from.pages);
+  const canonicalAfter = canonicalMap(to.pages);
+  const canonicalChanges: CrawlDiff["canonical_changes"] = [];
+  for (const [source, previous] of canonicalBefore) {
+    const current = canonicalAfter.get(source);
+    if (current && current !== previous) {
+      canonicalChanges.push({ source_url: source, from: previous, to: current });
+    }
+  }
+
+  return {
+    site,
+    from: {
+      sessionId: from.sessionId,
+      generated_at: from.generatedAt,
+      page_count: from.pages.length,
+    },
+    to: {
+      sessionId: to.sessionId,
+      generated_at: to.generatedAt,
+      page_count: to.pages.length,
+    },
+    added,
+    removed,
+    retyped,
+    priority_changes: priorityChanges,
+    canonical_changes: canonicalChanges,
+  };
+}
+
+export function buildDiffMarkdown(diff: CrawlDiff): string {
+  const header = [
+    `# Crawl Diff for ${diff.site}`,
+    `Compared ${diff.from.generated_at} (${diff.from.page_count} pages) with ${diff.to.generated_at} (${diff.to.page_count} pages)`,
+  ];
+
+  const pageTable = (pages: DiffPageEntry[]) => [
+    "| # | Human URL | AI Mirror URL | Type | Priority |",
+    "| --- | --- | --- | --- | --- |",
+    ...pages.map(
+      (page, index) =>
+        `| ${index + 1} | ${formatMarkdownLink(page.url)} | ${formatMarkdownLink(page.ai_url)} | ${page.type} | ${page.priority.toFixed(2)} |`
+    ),
+  ];
+
+  const sections = [
+    section(`Added Pages (${diff.added.length})`, diff.added.length, () => pageTable(diff.added)),
+    section(`Removed Pages (${diff.removed.length})`, diff.removed.length, () =>
+      pageTable(diff.removed)
+    ),
+    section(`Retyped Pages (${diff.retyped.length})`, diff.retyped.length, () => [
+      "| # | Human URL | Previous Type | Current Type |",
+      "| --- | --- | --- | --- |",
+      ...diff.retyped.map(
+        (change, index) =>
+          `| ${index + 1} | ${formatMarkdownLink(change.url)} | ${change.from} | ${change.to} |`
+      ),
+    ]),
+    section(
+      `Priority Changes (${diff.priority_changes.length})`,
+      diff.priority_changes.length,
+      () => [
+        "| # | Human URL | Previous Priority | Current Priority |",
+        "| --- | --- | --- | --- |",
+        ...diff.priority_changes.map(
+          (change, index) =>
+            `| ${index + 1} | ${formatMarkdownLink(change.url)} | ${change.from.toFixed(2)} | ${change.to.toFixed(2)} |`
+        ),
+      ]
+    ),
+    section(
+      `Canonical Changes (${diff.canonical_changes.length})`,
+      diff.canonical_changes.length,
+      () => [
+        "| # | Fetched URL | Previous Canonical | Current Canonical |",
+        "| --- | --- | --- | --- |",
+        ...diff.canonical_changes.map(
+          (change, index) =>
+            `| ${index + 1} | ${formatMarkdownLink(change.source_url)} | ${formatMarkdownLink(change.from)} | ${formatMarkdownLink(change.to)} |`
+        ),
+      ]
+    ),
+  ];
+
+  return `${header.join("\n\n")}\n\n${sections.join("\n\n")}\n`;
+}
+
+function section(title: string, count: number, table: () => string[]): string {
+  const body = count ? table().join("\n") : "_No changes._";
+  return `## ${title}\n\n${body}`;
+}
+
+// Every page is its own canonical; fetched URLs map to the page that claimed them.
+function canonicalMap(pages: DiffPage[]): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const page of pages) {
+    map.set(page.url, page.url);
+  }
+  for (const page of pages) {
+    for (const source of page.sourceUrls ?? []) {
+      map.set(source, page.url);
+    }
+  }
+  return map;
+}
+
+function toEntry(page: DiffPage): DiffPageEntry {
+  return {
+    url: page.url,
+    ai_url: page.ai_url,
+    type: page.type,
+    priority: page.priority,
+  };
+}
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CrawledPage, CrawlSession, FeedData } from "@/lib/mongodb";
+
+const db = vi.hoisted(() => ({
+  feeds: [] as FeedData[],
+  sessions: [] as CrawlSession[],
+  pages: [] as CrawledPage[],
+}));
+
+vi.mock("@/lib/mongodb", () => ({
+  getFeedDataBySession: async (sessionId: string) =>
+    db.feeds.filter((feed) => feed.sessionId === sessionId),
+  getCrawlSessionById: async (sessionId: string) =>
+    db.sessions.find((session) => session.sessionId === sessionId) ?? null,
+  getCrawledPagesInCrawlOrder: async (sessionId: string) =>
+    db.pages
+      .filter((page) => page.sessionId === sessionId)
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0)),
+}));
+
+const { loadStoredCrawlArtifacts } = await import("@/lib/crawl-jobs");
+
+const generatedAt = new Date("2024-10-05T00:00:00.000Z");
+
+function page(sessionId: string, path: string, position: number): CrawledPage {
+  return {
+    url: `https://example.com${path}`,
+    ai_url: `https://ai.example.com${path}`,
+    type: "article",
+    priority: 0.5,
+    // The driver stores undefined fields as null.
+    lastmod: null as unknown as undefined,
+    change_status: "unchanged",
+    position,
+    createdAt: generatedAt,
+    sessionId,
+  };
+}
+
+describe("loadStoredCrawlArtifacts", () => {
+  beforeEach(() => {
+    db.feeds = [];
+    db.sessions = [];
+    db.pages = [];
+  });
+
+  it("returns undefined when the session has no feed", async () => {
+    expect(await loadStoredCrawlArtifacts("missing")).toBeUndefined();
+  });
+
+  it("rebuilds the sitemap from stored pages in crawl order", async () => {
+    db.feeds.push({
+      siteDomain: "example.com",
+      rootUrl: "https://example.com/",
+      format: "xml",
+      pageCount: 3,
+      sessionId: "s2",
+      sitemapOptions: { images: true },
+    });
+    db.sessions.push({
+      sessionId: "s2",
+      siteDomain: "example.com",
+      rootUrl: "https://example.com/",
+      pageCount: 3,
+      generatedAt,
+      status: "completed",
+      previousSessionId: "s1",
+    });
+    db.pages.push(
+      page("s2", "/b", 1),
+      page("s2", "/", 0),
+      page("s2", "/c", 2),
+      page("s1", "/", 0),
+      page("s1", "/gone", 1)
+    );
+
+    const artifacts = await loadStoredCrawlArtifacts("s2");
+    expect(artifacts?.pages.map((entry) => entry.url)).toEqual([
+      "https://example.com/",
+      "https://example.com/b",
+      "https://example.com/c",
+    ]);
+    expect(artifacts?.pages[0].lastmod).toBeUndefined();
+    expect(artifacts?.generated_at).toBe(generatedAt.toISOString());
+    expect(artifacts?.sitemapOptions).toEqual({ images: true });
+    expect(artifacts?.removed).toEqual([
+      expect.objectContaining({ url: "https://example.com/gone", change_status: "removed" }),
+    ]);
+    expect(artifacts?.xml.match(/<loc>(.*?)<\/loc>/g)).toEqual([
+      "<loc>https://example.com/</loc>",
+      "<loc>https://example.com/b</loc>",
+      "<loc>https://example.com/c</loc>",
+    ]);
+  });
+
+  it("reads older feeds that kept the page list inline", async () => {
+    db.feeds.push({
+      siteDomain: "example.com",
+      rootUrl: "https://example.com/",
+      format: "json",
+      pageCount: 1,
+      sessionId: "legacy",
+      jsonContent: JSON.stringify({
+        site: "example.com",
+        generated_at: generatedAt.toISOString(),
+        pages: [
+          {
+            url: "https://example.com/",
+            ai_url: "https://ai.example.com/",
+            type: "homepage",
+            priority: 1,
+          },
+        ],
+      }),
+    });
+
+    const artifacts = await loadStoredCrawlArtifacts("legacy");
+    expect(artifacts?.pages).toHaveLength(1);
+    expect(artifacts?.xml).toContain("<loc>https://example.com/</loc>");
+  });
+});
@@ -0,0 +1,492 @@
+import { randomUUID } from "crypto";
+import {
+  buildMarkdownEntries,
+  buildMarkdownSummary,
+  buildSitemapXml,
+  crawlSite,
+  type ChangeFrequency,
+  type CrawlProgress,
+  type CrawlResult,
+  type MarkdownEntry,
+  type PageEntry,
+  type PreviousPage,
+  type SitemapOptions,
+} from "@/lib/crawler";
+import { estimateChangeFrequencies } from "@/lib/changefreq";
+import {
+  getCrawledItemsBySession,
+  getCrawledPagesInCrawlOrder,
+  getCrawlSessionById,
+  getFeedDataBySession,
+  getLastmodHistory,
+  saveCrawledPages,
+  saveCrawlSession,
+  saveFeedData,
+  saveSitemapFiles,
+  updateCrawlSession,
+  type CrawlChangeSummary,
+  type CrawledPage,
+} from "@/lib/mongodb";
+import { gzipSitemap, splitSitemap } from "@/lib/sitemap-index";
+
+// Finished jobs stay in memory long enough for the client to pick up the result.
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+export type CrawlJobStatus = "pending" | "completed" | "failed";
+
+export type SitemapFormat = "json" | "xml" | "md" | "index";
+
+export type CrawlArtifacts = {
+  site: string;
+  generated_at: string;
+  pages: PageEntry[];
+  xml: string;
+  markdown: string;
+  markdownEntries: MarkdownEntry[];
+  removed?: PageEntry[];
+  sitemapOptions: SitemapOptions;
+};
+
+export type CrawlJobSnapshot = {
+  sessionId: string;
+  siteDomain: string;
+  rootUrl: string;
+  status: CrawlJobStatus;
+  progress: CrawlProgress;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+  // Set on a completed job whose results could not be stored; the result is
+  // then only available from memory until the job is evicted.
+  persistenceError?: string;
+};
+
+type CrawlJob = CrawlJobSnapshot & {
+  result?: CrawlArtifacts;
+  listeners: Set<CrawlJobListener>;
+};
+
+type CrawlJobListener = (snapshot: CrawlJobSnapshot) => void;
+
+type StartCrawlJobInput = {
+  rootUrl: string;
+  siteDomain: string;
+  maxDepth: number;
+  maxPages?: number;
+  concurrency?: number;
+  minHostDelayMs?: number;
+  useSitemaps?: boolean;
+  includePdfs?: boolean;
+  previousSessionId?: string;
+  sitemapOptions?: SitemapOptions;
+  format: SitemapFormat;
+  userId?: string;
+};
+
+// Route handlers are bundled separately, so the registry lives on globalThis
+// to be shared between the POST handler and the progress stream.
+const globalForJobs = globalThis as typeof globalThis & {
+  crawlJobs?: Map<string, CrawlJob>;
+};
+const jobs = globalForJobs.crawlJobs ?? new Map<string, CrawlJob>();
+globalForJobs.crawlJobs = jobs;
+
+export function startCrawlJob(input: StartCrawlJobInput): CrawlJobSnapshot {
+  const sessionId = randomUUID();
+  const job: CrawlJob = {
+    sessionId,
+    siteDomain: input.siteDomain,
+    rootUrl: input.rootUrl,
+    status: "pending",
+    progress: {
+      visited: 0,
+      queued: 1,
+      skippedByRobots: 0,
+      failed: 0,
+      pagesFound: 0,
+      seededFromSitemaps: 0,
+    },
+    startedAt: new Date().toISOString(),
+    listeners: new Set(),
+  };
+  jobs.set(sessionId, job);
+
+  void runCrawlJob(job, input);
+
+  return toSnapshot(job);
+}
+
+export function getCrawlJob(sessionId: string): CrawlJobSnapshot | undefined {
+  const job = jobs.get(sessionId);
+  return job ? toSnapshot(job) : undefined;
+}
+
+export function getCrawlJobResult(sessionId: string): CrawlArtifacts | undefined {
+  return jobs.get(sessionId)?.result;
+}
+
+/**
+ * Registers a listener for progress updates. Returns an unsubscribe function,
+ * or undefined when the job is not tracked by this process.
+ */
+export function subscribeToCrawlJob(
+  sessionId: string,
+  listener: CrawlJobListener
+): (() => void) | undefined {
+  const job = jobs.get(sessionId);
+  if (!job) {
+    return undefined;
+  }
+  job.listeners.add(listener);
+  return () => {
+    job.listeners.delete(listener);
+  };
+}
+
+export function buildCrawlArtifacts(
+  site: string,
+  pages: PageEntry[],
+  generatedAt: string,
+  extras: { removed?: PageEntry[]; sitemapOptions?: SitemapOptions } = {}
+): CrawlArtifacts {
+  const sitemapOptions = extras.sitemapOptions ?? {};
+  return {
+    site,
+    generated_at: generatedAt,
+    pages,
+    xml: buildSitemapXml(site, pages, generatedAt, sitemapOptions),
+    markdown: buildMarkdownSummary(site, pages, generatedAt),
+    markdownEntries: buildMarkdownEntries(pages),
+    removed: extras.removed,
+    sitemapOptions,
+  };
+}
+
+/**
+ * Rebuilds the artifacts of a stored crawl from its pages in crawled_data.
+ * Removed pages are those of the previous session the crawl no longer found.
+ * Older feeds that kept the page list inline are read from the feed itself.
+ */
+export async function loadStoredCrawlArtifacts(
+  sessionId: string
+): Promise<CrawlArtifacts | undefined> {
+  const [feed] = await getFeedDataBySession(sessionId);
+  if (!feed) {
+    return undefined;
+  }
+  if (feed.jsonContent) {
+    const stored = JSON.parse(feed.jsonContent);
+    return buildCrawlArtifacts(
+      stored.site ?? feed.siteDomain,
+      stored.pages ?? [],
+      stored.generated_at ?? new Date().toISOString(),
+      { removed: stored.removed, sitemapOptions: stored.sitemap_options }
+    );
+  }
+
+  const [session, stored] = await Promise.all([
+    getCrawlSessionById(sessionId),
+    getCrawledPagesInCrawlOrder(sessionId),
+  ]);
+  const pages = stored.map(toPageEntry);
+  let removed: PageEntry[] | undefined;
+  if (session?.previousSessionId) {
+    const found = new Set(pages.map((page) => page.url));
+    removed = (await getCrawledPagesInCrawlOrder(session.previousSessionId))
+      .filter((page) => !found.has(page.url))
+      .map((page) => ({ ...toPageEntry(page), change_status: "removed" }));
+  }
+
+  const generatedAt = session?.generatedAt ?? feed.createdAt ?? new Date();
+  return buildCrawlArtifacts(feed.siteDomain, pages, generatedAt.toISOString(), {
+    removed,
+    sitemapOptions: feed.sitemapOptions,
+  });
+}
+
+// Fields the driver stored as null for undefined values are dropped again.
+function toPageEntry(page: CrawledPage): PageEntry {
+  return {
+    url: page.url,
+    ai_url: page.ai_url,
+    type: page.type as PageEntry["type"],
+    priority: page.priority,
+    lastmod: page.lastmod ?? undefined,
+    changefreq: (page.changefreq ?? undefined) as ChangeFrequency | undefined,
+    alternates: page.alternates ?? undefined,
+    images: page.images ?? undefined,
+    videos: page.videos ?? undefined,
+    change_status: page.change_status ?? undefined,
+  };
+}
+
+async function runCrawlJob(job: CrawlJob, input: StartCrawlJobInput) {
+  try {
+    await saveCrawlSession({
+      sessionId: job.sessionId,
+      userId: input.userId,
+      siteDomain: input.siteDomain,
+      rootUrl: input.rootUrl,
+      pageCount: 0,
+      generatedAt: new Date(job.startedAt),
+      status: "pending",
+      previousSessionId: input.previousSessionId,
+    });
+  } catch (dbError) {
+    console.error("Failed to save pending crawl session to MongoDB:", dbError);
+  }
+
+  try {
+    const previous = input.previousSessionId
+      ? await loadPreviousCrawl(input.previousSessionId)
+      : undefined;
+
+    const crawl = await crawlSite(
+      {
+        rootUrl: input.rootUrl,
+        maxDepth: input.maxDepth,
+        maxPages: input.maxPages,
+        concurrency: input.concurrency,
+        minHostDelayMs: input.minHostDelayMs,
+        useSitemaps: input.useSitemaps,
+        includePdfs: input.includePdfs,
+        previous,
+      },
+      (progress) => {
+        job.progress = progress;
+        notify(job);
+      }
+    );
+
+    const artifacts = buildCrawlArtifacts(
+      crawl.site,
+      await withChangeFrequencies(crawl.site, crawl.pages, crawl.generatedAt),
+      crawl.generatedAt,
+      {
+        removed: previous ? crawl.removed : undefined,
+        sitemapOptions: input.sitemapOptions,
+      }
+    );
+    job.persistenceError = await persistCrawl(job, input, artifacts, crawl.fingerprints);
+
+    job.result = artifacts;
+    job.status = "completed";
+  } catch (error) {
+    job.status = "failed";
+    job.error = error instanceof Error ? error.message : "Unable to generate sitemap.";
+
+    try {
+      await updateCrawlSession(job.sessionId, {
+        status: "failed",
+        error: job.error,
+        completedAt: new Date(),
+      });
+    } catch (dbError) {
+      console.error("Failed to mark crawl session as failed in MongoDB:", dbError);
+    }
+  }
+
+  job.finishedAt = new Date().toISOString();
+  notify(job);
+  job.listeners.clear();
+
+  setTimeout(() => jobs.delete(job.sessionId), FINISHED_JOB_TTL_MS).unref?.();
+}
+
+async function withChangeFrequencies(
+  site: string,
+  pages: PageEntry[],
+  generatedAt: string
+): Promise<PageEntry[]> {
+  try {
+    const history = await getLastmodHistory(site);
+    const estimates = estimateChangeFrequencies(pages, generatedAt, history);
+    return pages.map((page) =>
+      estimates.has(page.url) ? { ...page, changefreq: estimates.get(page.url) } : page
+    );
+  } catch (dbError) {
+    console.error("Failed to load crawl history for changefreq:", dbError);
+    return pages;
+  }
+}
+
+/**
+ * Loads the pages and fingerprints stored for an earlier session so the
+ * crawler can revisit them with conditional requests.
+ */
+async function loadPreviousCrawl(sessionId: string) {
+  const session = await getCrawlSessionById(sessionId);
+  if (!session || session.status !== "completed") {
+    throw new Error("Previous crawl session was not found or did not complete.");
+  }
+
+  const stored = await getCrawledItemsBySession(sessionId);
+  const pages = stored.map<PreviousPage>((page) => ({
+    url: page.url,
+    ai_url: page.ai_url,
+    type: page.type as PageEntry["type"],
+    priority: page.priority,
+    lastmod: page.lastmod,
+    alternates: page.alternates,
+    images: page.images,
+    videos: page.videos,
+    depth: page.depth,
+    etag: page.etag,
+    lastModified: page.httpLastModified,
+    contentHash: page.contentHash,
+    markdown: page.markdown,
+    links: page.links,
+    title: page.title,
+    description: page.description,
+    metadata: page.metadata,
+    sources: page.sourceUrls,
+  }));
+
+  return { generatedAt: session.generatedAt.toISOString(), pages };
+}
+
+/**
+ * Stores the crawl and marks its session completed. If any write fails the
+ * session is marked failed instead, so it never stays pending, and the error
+ * is returned for the job to report.
+ */
+async function persistCrawl(
+  job: CrawlJob,
+  input: StartCrawlJobInput,
+  artifacts: CrawlArtifacts,
+  fingerprints: CrawlResult["fingerprints"]
+): Promise<string | undefined> {
+  try {
+    if (artifacts.pages.length) {
+      await saveCrawledPages(
+        artifacts.pages.map((page) => {
+          const fingerprint = fingerprints[page.url];
+          return {
+            url: page.url,
+            ai_url: page.ai_url,
+            type: page.type,
+            priority: page.priority,
+            lastmod: page.lastmod,
+            changefreq: page.changefreq,
+            alternates: page.alternates,
+            images: page.images,
+            videos: page.videos,
+            change_status:
+              page.change_status === "removed" ? undefined : page.change_status,
+            title: fingerprint?.title,
+            description: fingerprint?.description,
+            metadata: fingerprint?.metadata,
+            markdown: fingerprint?.markdown,
+            depth: fingerprint?.depth,
+            etag: fingerprint?.etag,
+            httpLastModified: fingerprint?.lastModified,
+            contentHash: fingerprint?.contentHash,
+            links: fingerprint?.links,
+            sourceUrls: fingerprint?.sources,
+          };
+        }),
+        job.sessionId
+      );
+    }
+
+    const sitemapFiles = splitSitemap(
+      artifacts.site,
+      artifacts.pages,
+      artifacts.generated_at,
+      artifacts.sitemapOptions
+    );
+    await saveSitemapFiles(
+      job.sessionId,
+      sitemapFiles.map((file) => ({
+        name: file.name,
+        urlCount: file.urlCount,
+        lastmod: file.lastmod,
+        gzipContent: gzipSitemap(file.xml),
+      }))
+    );
+
+    await saveFeedData({
+      siteDomain: artifacts.site,
+      rootUrl: input.rootUrl,
+      format:
+        input.format === "xml" || input.format === "index"
+          ? "xml"
+          : input.format === "json"
+            ? "json"
+            : "both",
+      // The pages are in crawled_data and the sitemap in sitemap_files; the
+      // full XML and page list are rebuilt on demand by loadStoredCrawlArtifacts.
+      sitemapOptions: artifacts.sitemapOptions,
+      pageCount: artifacts.pages.length,
+      sessionId: job.sessionId,
+      sitemapFiles: sitemapFiles.map((file) => file.name),
+    });
+
+    await updateCrawlSession(job.sessionId, {
+      status: "completed",
+      pageCount: artifacts.pages.length,
+      generatedAt: new Date(artifacts.generated_at),
+      completedAt: new Date(),
+      changeSummary: artifacts.removed
+        ? summarizeChanges(artifacts.pages, artifacts.removed)
+        : undefined,
+    });
+  } catch (dbError) {
+    console.error("Failed to save crawl data to MongoDB:", dbError);
+    const message = `Crawl finished but its results could not be saved: ${
+      dbError instanceof Error ? dbError.message : "unknown database error"
+    }`;
+    try {
+      await updateCrawlSession(job.sessionId, {
+        status: "failed",
+        error: message,
+        completedAt: new Date(),
+      });
+    } catch (updateError) {
+      console.error("Failed to mark crawl session as failed in MongoDB:", updateError);
+    }
+    // The in-memory result is still served until the job is evicted.
+    return message;
+  }
+  return undefined;
+}
+
+function summarizeChanges(pages: PageEntry[], removed: PageEntry[]): CrawlChangeSummary {
+  const summary: CrawlChangeSummary = {
+    unchanged: 0,
+    modified: 0,
+    new: 0,
+    removed: removed.length,
+  };
+  for (const page of pages) {
+    if (page.change_status && page.change_status !== "removed") {
+      summary[page.change_status] += 1;
+    }
+  }
+  return summary;
+}
+
+function notify(job: CrawlJob) {
+  const snapshot = toSnapshot(job);
+  for (const listener of job.listeners) {
+    try {
+      listener(snapshot);
+    } catch {
+      // A broken listener must not interrupt the crawl
+    }
+  }
+}
+
+function toSnapshot(job: CrawlJob): CrawlJobSnapshot {
+  return {
+    sessionId: job.sessionId,
+    siteDomain: job.siteDomain,
+    rootUrl: job.rootUrl,
+    status: job.status,
+    progress: { ...job.progress },
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    error: job.error,
+    persistenceError: job.persistenceError,
+  };
+}
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CrawlJobSnapshot } from "@/lib/crawl-jobs";
+import type { CrawlSchedule } from "@/lib/mongodb";
+
+const state = vi.hoisted(() => ({
+  schedules: [] as CrawlSchedule[],
+  listener: undefined as ((snapshot: CrawlJobSnapshot) => void) | undefined,
+  updates: [] as Array<Partial<CrawlSchedule>>,
+  started: [] as Array<{ previousSessionId?: string }>,
+}));
+
+vi.mock("@/lib/mongodb", () => ({
+  getDueCrawlSchedules: async () => state.schedules,
+  claimCrawlSchedule: async () => true,
+  updateCrawlSchedule: async (_id: string, update: Partial<CrawlSchedule>) => {
+    state.updates.push(update);
+  },
+}));
+
+vi.mock("@/lib/crawl-jobs", () => ({
+  startCrawlJob: (input: { previousSessionId?: string }) => {
+    state.started.push(input);
+    return { sessionId: `run-${state.started.length}` };
+  },
+  subscribeToCrawlJob: (_sessionId: string, listener: (snapshot: CrawlJobSnapshot) => void) => {
+    state.listener = listener;
+    return () => undefined;
+  },
+}));
+
+const { runDueSchedules } = await import("@/lib/crawl-scheduler");
+
+const now = new Date("2024-10-05T12:00:00.000Z");
+
+function schedule(overrides: Partial<CrawlSchedule> = {}): CrawlSchedule {
+  return {
+    scheduleId: "daily",
+    userId: "user",
+    siteDomain: "example.com",
+    rootUrl: "https://example.com/",
+    maxDepth: 2,
+    cron: "0 * * * *",
+    paused: false,
+    nextRunAt: now,
+    createdAt: now,
+    ...overrides,
+  };
+}
+
+function finish(overrides: Partial<CrawlJobSnapshot>) {
+  state.listener?.({
+    sessionId: "run-1",
+    siteDomain: "example.com",
+    rootUrl: "https://example.com/",
+    status: "completed",
+    progress: {
+      visited: 1,
+      queued: 0,
+      skippedByRobots: 0,
+      failed: 0,
+      pagesFound: 1,
+      seededFromSitemaps: 0,
+    },
+    startedAt: now.toISOString(),
+    ...overrides,
+  });
+}
+
+describe("runDueSchedules", () => {
+  beforeEach(() => {
+    state.schedules = [];
+    state.listener = undefined;
+    state.updates = [];
+    state.started = [];
+  });
+
+  it("records a completed run", async () => {
+    state.schedules = [schedule()];
+    await runDueSchedules(now);
+    finish({});
+    expect(state.updates).toContainEqual({ lastStatus: "completed" });
+  });
+
+  it("records a run whose results were not stored as failed", async () => {
+    state.schedules = [schedule()];
+    await runDueSchedules(now);
+    finish({ persistenceError: "write failed" });
+    expect(state.updates).toContainEqual({ lastStatus: "failed" });
+    expect(state.updates).not.toContainEqual({ lastStatus: "completed" });
+  });
+
+  it("only builds on the previous session after a completed run", async () => {
+    state.schedules = [
+      schedule({ scheduleId: "ok", lastSessionId: "good", lastStatus: "completed" }),
+      schedule({ scheduleId: "bad", lastSessionId: "lost", lastStatus: "failed" }),
+    ];
+    await runDueSchedules(now);
+    expect(state.started.map((input) => input.previousSessionId)).toEqual([
+      "good",
+      undefined,
+    ]);
+  });
+});
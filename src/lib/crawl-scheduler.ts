@@ -0,0 +1,95 @@
+import { nextCronRun } from "@/lib/cron";
+import { startCrawlJob, subscribeToCrawlJob } from "@/lib/crawl-jobs";
+import {
+  claimCrawlSchedule,
+  getDueCrawlSchedules,
+  updateCrawlSchedule,
+  type CrawlSchedule,
+} from "@/lib/mongodb";
+
+const TICK_INTERVAL_MS = 60 * 1000;
+// A run still marked pending after this long was lost to a restart.
+const STALE_RUN_MS = 2 * 60 * 60 * 1000;
+
+// One timer per process, kept on globalThis so dev reloads don't stack them.
+const globalForScheduler = globalThis as typeof globalThis & {
+  crawlScheduler?: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Starts the in-process scheduler. Every minute it claims due schedules and
+ * starts their crawls through the same job pipeline as `POST /api/sitemap`.
+ */
+export function startCrawlScheduler() {
+  if (globalForScheduler.crawlScheduler || !process.env.MONGODB_URI) {
+    return;
+  }
+  globalForScheduler.crawlScheduler = setInterval(() => {
+    void runDueSchedules();
+  }, TICK_INTERVAL_MS);
+  globalForScheduler.crawlScheduler.unref?.();
+  void runDueSchedules();
+}
+
+export async function runDueSchedules(now = new Date()) {
+  let due: CrawlSchedule[];
+  try {
+    due = await getDueCrawlSchedules(now);
+  } catch (error) {
+    console.error("Failed to load due crawl schedules:", error);
+    return;
+  }
+
+  for (const schedule of due) {
+    try {
+      await runSchedule(schedule, now);
+    } catch (error) {
+      console.error(`Failed to run crawl schedule ${schedule.scheduleId}:`, error);
+    }
+  }
+}
+
+async function runSchedule(schedule: CrawlSchedule, now: Date) {
+  // Skip a run rather than overlap one that is still crawling.
+  const lastRunAt = schedule.lastRunAt?.getTime() ?? 0;
+  if (schedule.lastStatus === "pending" && now.getTime() - lastRunAt < STALE_RUN_MS) {
+    await claimCrawlSchedule(schedule.scheduleId, schedule.nextRunAt!, {
+      nextRunAt: nextCronRun(schedule.cron, now) ?? null,
+    });
+    return;
+  }
+
+  const claimed = await claimCrawlSchedule(schedule.scheduleId, schedule.nextRunAt!, {
+    nextRunAt: nextCronRun(schedule.cron, now) ?? null,
+    lastRunAt: now,
+    lastStatus: "pending",
+  });
+  if (!claimed) {
+    return;
+  }
+
+  const job = startCrawlJob({
+    rootUrl: schedule.rootUrl,
+    siteDomain: schedule.siteDomain,
+    maxDepth: schedule.maxDepth,
+    // Build on the last good crawl so unchanged pages keep their lastmod.
+    previousSessionId:
+      schedule.lastStatus === "completed" ? schedule.lastSessionId : undefined,
+    format: "json",
+    userId: schedule.userId,
+  });
+
+  const unsubscribe = subscribeToCrawlJob(job.sessionId, (snapshot) => {
+    if (snapshot.status === "pending") {
+      return;
+    }
+    unsubscribe?.();
+    // A crawl whose results were not stored leaves no session to build on.
+    const lastStatus = snapshot.persistenceError ? "failed" : snapshot.status;
+    void updateCrawlSchedule(schedule.scheduleId, { lastStatus }).catch(
+      (error) => console.error("Failed to record crawl schedule status:", error)
+    );
+  });
+
+  await updateCrawlSchedule(schedule.scheduleId, { lastSessionId: job.sessionId });
+}
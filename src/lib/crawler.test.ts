@@ -0,0 +1,316 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PreviousPage } from "@/lib/crawler";
+
+// Each test serves its own site: path -> HTML or PDF bytes, "robots" for robots.txt.
+const sites = vi.hoisted(() => new Map<string, Record<string, string | Uint8Array<ArrayBuffer>>>());
+// Per-URL response delays and error statuses, and when each request started.
+const network = vi.hoisted(() => ({
+  delays: new Map<string, number>(),
+  statuses: new Map<string, number>(),
+  requests: [] as Array<{ url: string; at: number }>,
+  active: 0,
+  maxActive: 0,
+}));
+
+vi.mock("@/lib/safe-fetch", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/safe-fetch")>();
+  return {
+    ...actual,
+    safeFetch: vi.fn(async (input: string | URL) => {
+      const url = new URL(input);
+      network.requests.push({ url: url.href, at: Date.now() });
+      network.active += 1;
+      network.maxActive = Math.max(network.maxActive, network.active);
+      const delay = network.delays.get(url.href);
+      if (delay) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      network.active -= 1;
+      const status = network.statuses.get(url.href);
+      if (status) {
+        return new Response("error", { status });
+      }
+      const site = sites.get(url.host) ?? {};
+      const body = url.pathname === "/robots.txt" ? site.robots : site[url.pathname];
+      if (body === undefined) {
+        return new Response("not found", { status: 404 });
+      }
+      const contentType =
+        url.pathname === "/robots.txt"
+          ? "text/plain"
+          : typeof body === "string"
+            ? "text/html"
+            : "application/pdf";
+      return new Response(body, { headers: { "content-type": contentType } });
+    }),
+  };
+});
+
+const { crawlSite } = await import("@/lib/crawler");
+
+function page(title: string, links: string[] = []): string {
+  const anchors = links.map((href) => `<a href="${href}">${href}</a>`).join(" ");
+  return `<html><head><title>${title}</title></head><body><article><h1>${title}</h1><p>${title} has enough text to be extracted as the main content of the page.</p><p>${anchors}</p></article></body></html>`;
+}
+
+function crawlOptions(host: string, overrides: Partial<Parameters<typeof crawlSite>[0]> = {}) {
+  return {
+    rootUrl: `https://${host}/`,
+    maxDepth: 2,
+    useSitemaps: false,
+    minHostDelayMs: 0,
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  sites.clear();
+  network.delays.clear();
+  network.statuses.clear();
+  network.requests = [];
+  network.maxActive = 0;
+  vi.useRealTimers();
+});
+
+// Runs a crawl to completion under fake timers.
+async function crawlWithFakeTimers(options: Parameters<typeof crawlSite>[0]) {
+  vi.useFakeTimers();
+  const crawl = crawlSite(options);
+  await vi.runAllTimersAsync();
+  return crawl;
+}
+
+const pageRequests = (host: string) =>
+  network.requests.filter(
+    (request) => request.url.startsWith(`https://${host}/`) && !request.url.endsWith("/robots.txt")
+  );
+
+describe("crawlSite worker pool", () => {
+  const links = ["/a", "/b", "/c", "/d", "/e"];
+
+  it("commits results in dequeue order whatever order they arrive in", async () => {
+    sites.set("order.test", {
+      "/": page("Home", links),
+      ...Object.fromEntries(links.map((link) => [link, page(link)])),
+    });
+    network.delays.set("https://order.test/a", 900);
+    network.delays.set("https://order.test/b", 50);
+    network.delays.set("https://order.test/c", 400);
+
+    const result = await crawlWithFakeTimers(crawlOptions("order.test", { concurrency: 4 }));
+    expect(result.pages.map((entry) => entry.url)).toEqual([
+      "https://order.test/",
+      ...links.map((link) => `https://order.test${link}`),
+    ]);
+  });
+
+  it("never runs more than `concurrency` fetches at once", async () => {
+    sites.set("bounded.test", {
+      "/": page("Home", links),
+      ...Object.fromEntries(links.map((link) => [link, page(link)])),
+    });
+    for (const link of links) {
+      network.delays.set(`https://bounded.test${link}`, 100);
+    }
+
+    const result = await crawlWithFakeTimers(crawlOptions("bounded.test", { concurrency: 2 }));
+    expect(result.pages).toHaveLength(6);
+    expect(network.maxActive).toBe(2);
+  });
+
+  it("spaces requests to the host by the robots.txt Crawl-delay", async () => {
+    sites.set("polite.test", {
+      robots: "User-agent: *\nCrawl-delay: 2\n",
+      "/": page("Home", links.slice(0, 3)),
+      ...Object.fromEntries(links.slice(0, 3).map((link) => [link, page(link)])),
+    });
+
+    const result = await crawlWithFakeTimers(crawlOptions("polite.test", { concurrency: 4 }));
+    expect(result.pages).toHaveLength(4);
+    const starts = pageRequests("polite.test").map((request) => request.at);
+    expect(starts).toHaveLength(4);
+    for (let index = 1; index < starts.length; index += 1) {
+      expect(starts[index] - starts[index - 1]).toBeGreaterThanOrEqual(2000);
+    }
+  });
+
+  it("uses minHostDelayMs when it is longer than the Crawl-delay", async () => {
+    sites.set("slow.test", {
+      robots: "User-agent: *\nCrawl-delay: 1\n",
+      "/": page("Home", ["/a"]),
+      "/a": page("A"),
+    });
+
+    await crawlWithFakeTimers(crawlOptions("slow.test", { minHostDelayMs: 5000 }));
+    const [first, second] = pageRequests("slow.test").map((request) => request.at);
+    expect(second - first).toBeGreaterThanOrEqual(5000);
+  });
+});
+
+describe("crawlSite incremental recrawls", () => {
+  // A chain one page longer than maxDepth reaches.
+  const chain = {
+    "/": page("Home", ["/a"]),
+    "/a": page("A", ["/b"]),
+    "/b": page("B", ["/c"]),
+    "/c": page("C"),
+  };
+
+  it("revisits previous pages at their recorded depth", async () => {
+    sites.set("depth.test", chain);
+    const first = await crawlSite(crawlOptions("depth.test"));
+    expect(first.pages.map((entry) => entry.url)).toEqual([
+      "https://depth.test/",
+      "https://depth.test/a",
+      "https://depth.test/b",
+    ]);
+    expect(first.fingerprints["https://depth.test/b"].depth).toBe(2);
+
+    const previousPages = first.pages.map<PreviousPage>((entry) => ({
+      ...entry,
+      ...first.fingerprints[entry.url],
+    }));
+    const second = await crawlSite(
+      crawlOptions("depth.test", {
+        previous: { generatedAt: first.generatedAt, pages: previousPages },
+      })
+    );
+    expect(second.pages.map((entry) => entry.url)).not.toContain("https://depth.test/c");
+    expect(second.fingerprints["https://depth.test/b"].depth).toBe(2);
+  });
+
+  // Crawls the chain once and returns a function that recrawls on top of it.
+  async function recrawl(host: string) {
+    sites.set(host, chain);
+    const first = await crawlSite(crawlOptions(host));
+    const previousPages = first.pages.map<PreviousPage>((entry) => ({
+      ...entry,
+      ...first.fingerprints[entry.url],
+    }));
+    return (overrides: Parameters<typeof crawlOptions>[1] = {}) =>
+      crawlSite(
+        crawlOptions(host, {
+          ...overrides,
+          previous: { generatedAt: first.generatedAt, pages: previousPages },
+        })
+      );
+  }
+
+  it("carries pages whose fetch failed forward instead of removing them", async () => {
+    const next = await recrawl("outage.test");
+    network.statuses.set("https://outage.test/b", 500);
+
+    const second = await next();
+    expect(second.removed).toEqual([]);
+    expect(second.pages.find((entry) => entry.url === "https://outage.test/b")).toMatchObject({
+      change_status: "unchanged",
+    });
+    expect(second.fingerprints["https://outage.test/b"]).toMatchObject({
+      depth: 2,
+      markdown: expect.stringContaining("B has enough text"),
+    });
+  });
+
+  it("carries pages past the maxPages cut-off forward instead of removing them", async () => {
+    const next = await recrawl("capped.test");
+
+    const second = await next({ maxPages: 1 });
+    expect(second.removed).toEqual([]);
+    expect(second.pages.map((entry) => entry.url)).toEqual([
+      "https://capped.test/",
+      "https://capped.test/a",
+      "https://capped.test/b",
+    ]);
+  });
+
+  it("removes pages that answer 404 or 410", async () => {
+    const next = await recrawl("gone.test");
+    network.statuses.set("https://gone.test/a", 410);
+    network.statuses.set("https://gone.test/b", 404);
+
+    const second = await next();
+    expect(second.removed.map((entry) => entry.url)).toEqual([
+      "https://gone.test/a",
+      "https://gone.test/b",
+    ]);
+    expect(second.pages.map((entry) => entry.url)).toEqual(["https://gone.test/"]);
+  });
+
+  it("does not expand previous pages stored without a depth", async () => {
+    sites.set("legacy.test", chain);
+    const second = await crawlSite(
+      crawlOptions("legacy.test", {
+        previous: {
+          generatedAt: "2024-10-01T00:00:00.000Z",
+          pages: [
+            {
+              url: "https://legacy.test/b",
+              ai_url: "https://ai.legacy.test/b",
+              type: "article",
+              priority: 0.5,
+            },
+          ],
+        },
+      })
+    );
+    expect(second.pages.map((entry) => entry.url)).toEqual([
+      "https://legacy.test/",
+      "https://legacy.test/b",
+      "https://legacy.test/a",
+    ]);
+  });
+});
+
+describe("crawlSite sitemap seeding", () => {
+  it("queues pages from the robots.txt sitemap behind the root", async () => {
+    sites.set("seeded.test", {
+      robots: "User-agent: *\nAllow: /\n\nSitemap: https://seeded.test/maps/pages.xml\n",
+      "/": page("Home", ["/linked"]),
+      "/linked": page("Linked"),
+      "/orphan": page("Orphan"),
+      "/maps/pages.xml":
+        '<urlset><url><loc>https://seeded.test/orphan</loc><lastmod>2024-03-01</lastmod></url></urlset>',
+    });
+
+    const result = await crawlSite(crawlOptions("seeded.test", { useSitemaps: true }));
+    expect(result.pages.map((entry) => entry.url)).toEqual([
+      "https://seeded.test/",
+      "https://seeded.test/orphan",
+      "https://seeded.test/linked",
+    ]);
+    expect(result.pages[1].lastmod).toBe("2024-03-01T00:00:00.000Z");
+  });
+});
+
+describe("crawlSite with linked PDFs", () => {
+  const site = {
+    "/": page("Home", ["/guide", "/files/report.pdf"]),
+    "/guide": page("Guide"),
+    "/files/report.pdf": new Uint8Array(
+      readFileSync(path.join(__dirname, "__fixtures__/pdf/report.pdf"))
+    ),
+  };
+
+  it("skips PDFs by default", async () => {
+    sites.set("nopdf.test", site);
+    const result = await crawlSite(crawlOptions("nopdf.test"));
+    expect(result.pages.map((entry) => entry.url)).toEqual([
+      "https://nopdf.test/",
+      "https://nopdf.test/guide",
+    ]);
+  });
+
+  it("extracts linked PDFs when includePdfs is on", async () => {
+    sites.set("pdf.test", site);
+    const result = await crawlSite(crawlOptions("pdf.test", { includePdfs: true }));
+    expect(result.pages.map((entry) => entry.url)).toContain(
+      "https://pdf.test/files/report.pdf"
+    );
+    expect(result.fingerprints["https://pdf.test/files/report.pdf"]).toMatchObject({
+      title: "Q3 Report",
+      markdown: expect.stringContaining("## Quarterly Results"),
+    });
+  });
+});
@@ -0,0 +1,1163 @@
+import { createHash } from "crypto";
+import { JSDOM } from "jsdom";
+import { decodeHtml } from "@/lib/charset";
+import {
+  extractFromDocument,
+  type ExtractedMetadata,
+  type ExtractionResult,
+} from "@/lib/extractor";
+import { extractFromPdf, isPdfResponse, MAX_PDF_BYTES } from "@/lib/pdf-extractor";
+import { CRAWLER_USER_AGENT, fetchRobotsPolicy } from "@/lib/robots";
+import { readBodyWithLimit, safeFetch } from "@/lib/safe-fetch";
+import { collectSitemapEntries, sitemapCandidates } from "@/lib/sitemap-discovery";
+
+export const MAX_DEPTH = 4;
+export const DEFAULT_MAX_PAGES = 120;
+// Upper bound for `maxPages`; CRAWL_MAX_PAGES changes it for large sites.
+export const MAX_PAGES = readPageLimit(process.env.CRAWL_MAX_PAGES, 5_000);
+// Google's per-URL limits for image and video sitemap entries.
+const MAX_IMAGES_PER_PAGE = 1000;
+const MAX_VIDEOS_PER_PAGE = 100;
+export const DEFAULT_CONCURRENCY = 4;
+export const MAX_CONCURRENCY = 8;
+export const DEFAULT_HOST_DELAY_MS = 250;
+export const MAX_CRAWL_DELAY_MS = 30_000; // Ignore robots Crawl-delay values beyond 30 s.
+const MAX_DOCUMENT_BYTES = 2 * 1024 * 1024; // 2 MB cap keeps crawl bounded.
+const STATIC_EXTENSIONS = [
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".gif",
+  ".svg",
+  ".webp",
+  ".ico",
+  ".css",
+  ".js",
+  ".pdf",
+  ".zip",
+  ".mp4",
+  ".mp3",
+  ".woff",
+  ".woff2",
+  ".ttf",
+  ".otf",
+];
+const BLOCKED_SEGMENTS = [
+  /\/(login|logout|signin|signup|register|auth)\b/i,
+  /\/(admin|dashboard)\b/i,
+  /\/(account|profile)\b/i,
+  /\/(cart|checkout)\b/i,
+  /\/(search|filter|track|query)/i,
+];
+
+export type PageType = "homepage" | "article" | "product" | "docs" | "category";
+
+export type PageChangeStatus = "unchanged" | "modified" | "new" | "removed";
+
+export type ChangeFrequency = "hourly" | "daily" | "weekly" | "monthly" | "yearly";
+
+export type PageAlternate = {
+  hreflang: string;
+  href: string;
+};
+
+export type PageImage = {
+  loc: string;
+  title?: string;
+  caption?: string;
+};
+
+export type PageVideo = {
+  thumbnail_loc: string;
+  title: string;
+  description: string;
+  content_loc?: string;
+  player_loc?: string;
+  duration?: number;
+};
+
+// Optional sitemap extensions; media is always collected but only emitted on request.
+export type SitemapOptions = {
+  images?: boolean;
+  videos?: boolean;
+};
+
+export type PageEntry = {
+  url: string;
+  ai_url: string;
+  type: PageType;
+  priority: number;
+  lastmod?: string;
+  changefreq?: ChangeFrequency;
+  alternates?: PageAlternate[];
+  images?: PageImage[];
+  videos?: PageVideo[];
+  change_status?: PageChangeStatus;
+};
+
+// Per-page validators and content kept between crawls for incremental recrawls.
+export type PageFingerprint = {
+  // Link depth the page was recorded at; revisits re-enter the queue there.
+  depth: number;
+  etag?: string;
+  lastModified?: string;
+  contentHash: string;
+  markdown: string;
+  links: string[];
+  title?: string;
+  description?: string;
+  metadata?: ExtractedMetadata;
+  // Fetched URLs that declared this page as their canonical.
+  sources?: string[];
+};
+
+export type PreviousPage = PageEntry & Partial<PageFingerprint>;
+
+export type MarkdownEntry = {
+  url: string;
+  markdown: string;
+};
+
+type QueueItem = {
+  url: string;
+  depth: number;
+  lastmod?: string;
+};
+
+// HTML pages are extracted once recorded; PDFs are extracted while fetching.
+type FetchResult = (
+  | { document: Document; extraction?: undefined }
+  | { document?: undefined; extraction: ExtractionResult }
+) & {
+  finalUrl: string;
+  canonical?: string;
+  links: string[];
+  alternates: PageAlternate[];
+  images: PageImage[];
+  videos: PageVideo[];
+  description?: string;
+  modifiedTime?: string;
+  encoding?: string;
+  etag?: string;
+  lastModified?: string;
+  cleanup: () => void;
+};
+
+type NotModifiedResult = {
+  notModified: true;
+};
+
+// 404 or 410: the page is gone, unlike a timeout or 5xx, which may be brief.
+type GoneResult = {
+  gone: true;
+};
+
+type InFlightFetch = {
+  item: QueueItem;
+  url: string;
+  result: Promise<FetchResult | NotModifiedResult | GoneResult | undefined>;
+};
+
+export type CrawlOptions = {
+  rootUrl: string;
+  maxDepth: number;
+  // Pages recorded before the crawl stops; defaults to DEFAULT_MAX_PAGES.
+  maxPages?: number;
+  concurrency?: number;
+  minHostDelayMs?: number;
+  useSitemaps?: boolean;
+  // Follow links to PDF documents and extract them like pages.
+  includePdfs?: boolean;
+  previous?: {
+    generatedAt: string;
+    pages: PreviousPage[];
+  };
+};
+
+export type CrawlProgress = {
+  visited: number;
+  queued: number;
+  skippedByRobots: number;
+  failed: number;
+  pagesFound: number;
+  seededFromSitemaps: number;
+};
+
+export type CrawlResult = {
+  site: string;
+  rootUrl: string;
+  generatedAt: string;
+  pages: PageEntry[];
+  removed: PageEntry[];
+  fingerprints: Record<string, PageFingerprint>;
+};
+
+type ProgressListener = (progress: CrawlProgress) => void;
+
+/**
+ * Breadth-first crawl of a single host. Up to `concurrency` pages are fetched
+ * at once, but results are committed in dequeue order so the page list, depth
+ * semantics and `maxPages` cut-off match a sequential crawl. Progress is
+ * reported after every committed URL so callers can stream it while the crawl
+ * is still running.
+ *
+ * When `previous` is given the crawl is incremental: earlier pages are
+ * revisited with conditional requests, Markdown hashes decide whether a page
+ * changed, and pages that answered 404/410, are now excluded, or resolved to
+ * another URL are returned as removed. Earlier pages whose fetch failed or
+ * that the `maxPages` cut-off left unvisited are carried forward unchanged,
+ * so they can take the page list past `maxPages`.
+ */
+export async function crawlSite(
+  options: CrawlOptions,
+  onProgress?: ProgressListener
+): Promise<CrawlResult> {
+  const normalizedRoot = normalizeUrl(options.rootUrl);
+  const root = new URL(normalizedRoot);
+  const depthLimit = clamp(options.maxDepth, 1, MAX_DEPTH);
+  const concurrency = clamp(
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    1,
+    MAX_CONCURRENCY
+  );
+  const maxPages = clamp(options.maxPages ?? DEFAULT_MAX_PAGES, 1, MAX_PAGES);
+  const siteDomain = root.hostname.replace(/^www\./i, "");
+  const includePdfs = options.includePdfs === true;
+
+  const robots = await fetchRobotsPolicy(root, { userAgent: CRAWLER_USER_AGENT });
+  const hostDelayMs = Math.max(
+    options.minHostDelayMs ?? DEFAULT_HOST_DELAY_MS,
+    Math.min((robots.crawlDelay ?? 0) * 1000, MAX_CRAWL_DELAY_MS)
+  );
+  const waitForHost = createHostThrottle(hostDelayMs);
+
+  const crawlStartedAt = new Date().toISOString();
+  const queue: QueueItem[] = [{ url: normalizedRoot, depth: 0 }];
+  const lastmodByUrl = new Map<string, string>();
+  const previousByUrl = new Map(
+    (options.previous?.pages ?? []).map((page) => [page.url, page])
+  );
+  let seededFromSitemaps = 0;
+
+  // Revisit every previously known page so removals are detected. Each one
+  // keeps its recorded depth so links found on deep pages don't grow the
+  // crawl past maxDepth; pages stored without one are not expanded.
+  const revisitDepth = (page: PreviousPage) => Math.min(page.depth ?? depthLimit, depthLimit);
+  for (const page of previousByUrl.values()) {
+    if (page.url !== normalizedRoot) {
+      queue.push({ url: page.url, depth: revisitDepth(page) });
+    }
+  }
+
+  // Sitemap URLs are queued right behind the root as depth-1 pages, so deep
+  // content is reached even when BFS from the homepage would not get there.
+  if (options.useSitemaps !== false) {
+    const entries = await collectSitemapEntries(
+      sitemapCandidates(root, robots.sitemaps),
+      { userAgent: CRAWLER_USER_AGENT, maxEntries: maxPages, root }
+    ).catch(() => []);
+    for (const entry of entries) {
+      try {
+        const url = normalizeUrl(entry.url);
+        if (url === normalizedRoot || !isSameHost(root, new URL(url))) {
+          continue;
+        }
+        if (entry.lastmod) {
+          lastmodByUrl.set(url, entry.lastmod);
+        }
+        queue.push({ url, depth: 1, lastmod: entry.lastmod });
+        seededFromSitemaps += 1;
+      } catch {
+        continue;
+      }
+    }
+  }
+
+  const inFlight: InFlightFetch[] = [];
+  const visited = new Set<string>();
+  const recorded = new Set<string>();
+  // URLs whose outcome is known: fetched, gone, or excluded from the crawl.
+  const settled = new Set<string>();
+  const pages: PageEntry[] = [];
+  const fingerprints: Record<string, PageFingerprint> = {};
+  const skippedByRobots = new Set<string>();
+  const progress: CrawlProgress = {
+    visited: 0,
+    queued: queue.length,
+    skippedByRobots: 0,
+    failed: 0,
+    pagesFound: 0,
+    seededFromSitemaps,
+  };
+
+  const report = () => {
+    progress.queued = queue.length;
+    progress.skippedByRobots = skippedByRobots.size;
+    progress.pagesFound = pages.length;
+    onProgress?.({ ...progress });
+  };
+
+  // Fill the pool from the head of the queue. Never start more fetches than
+  // could still be recorded before hitting maxPages.
+  const dispatch = () => {
+    while (
+      queue.length &&
+      inFlight.length < concurrency &&
+      pages.length + inFlight.length < maxPages
+    ) {
+      const current = queue.shift()!;
+      const normalizedCurrent = normalizeUrl(current.url);
+
+      if (visited.has(normalizedCurrent)) {
+        continue;
+      }
+      visited.add(normalizedCurrent);
+
+      const currentUrl = new URL(normalizedCurrent);
+      if (!isSameHost(root, currentUrl)) {
+        continue;
+      }
+      if (!robots.allows(currentUrl.pathname)) {
+        skippedByRobots.add(normalizedCurrent);
+        settled.add(normalizedCurrent);
+        continue;
+      }
+      if (isBlockedPath(currentUrl, includePdfs)) {
+        settled.add(normalizedCurrent);
+        continue;
+      }
+
+      progress.visited += 1;
+      inFlight.push({
+        item: current,
+        url: normalizedCurrent,
+        result: waitForHost(currentUrl.hostname)
+          .then(() =>
+            fetchPage(normalizedCurrent, previousByUrl.get(normalizedCurrent), includePdfs)
+          )
+          .catch(() => undefined),
+      });
+    }
+  };
+
+  const enqueueLinks = (links: string[], depth: number) => {
+    if (depth >= depthLimit) {
+      return;
+    }
+    for (const link of links) {
+      const linkUrl = new URL(link);
+      if (!isSameHost(root, linkUrl)) {
+        continue;
+      }
+      if (isBlockedPath(linkUrl, includePdfs)) {
+        continue;
+      }
+      if (!robots.allows(linkUrl.pathname)) {
+        skippedByRobots.add(link);
+        continue;
+      }
+      if (visited.has(link)) {
+        continue;
+      }
+      queue.push({ url: link, depth: depth + 1 });
+    }
+  };
+
+  const recordPage = (entry: PageEntry, fingerprint: PageFingerprint) => {
+    const { change_status: changeStatus, ...page } = entry;
+    pages.push(options.previous ? { ...page, change_status: changeStatus ?? "new" } : page);
+    fingerprints[entry.url] = fingerprint;
+    recorded.add(entry.url);
+  };
+
+  // Records an earlier page as it was stored last time.
+  const carryForward = (previousPage: PreviousPage, depth: number) => {
+    recordPage(
+      {
+        url: previousPage.url,
+        ai_url: previousPage.ai_url,
+        type: previousPage.type,
+        priority: previousPage.priority,
+        lastmod: previousPage.lastmod ?? options.previous?.generatedAt,
+        alternates: previousPage.alternates,
+        images: previousPage.images,
+        videos: previousPage.videos,
+        change_status: "unchanged",
+      },
+      {
+        depth,
+        etag: previousPage.etag,
+        lastModified: previousPage.lastModified,
+        contentHash: previousPage.contentHash ?? "",
+        markdown: previousPage.markdown ?? "",
+        links: previousPage.links ?? [],
+        title: previousPage.title,
+        description: previousPage.description,
+        metadata: previousPage.metadata,
+        sources: previousPage.sources,
+      }
+    );
+  };
+
+  dispatch();
+
+  while (inFlight.length && pages.length < maxPages) {
+    const { item: current, url: requestedUrl, result } = inFlight.shift()!;
+    const page = await result;
+    if (!page || "gone" in page) {
+      if (page) {
+        settled.add(requestedUrl);
+      }
+      progress.failed += 1;
+      dispatch();
+      report();
+      continue;
+    }
+    settled.add(requestedUrl);
+
+    // 304: reuse everything we stored for this page last time.
+    if ("notModified" in page) {
+      const previousPage = previousByUrl.get(requestedUrl)!;
+      if (!recorded.has(previousPage.url)) {
+        carryForward(previousPage, current.depth);
+      }
+      enqueueLinks(previousPage.links ?? [], current.depth);
+      dispatch();
+      report();
+      continue;
+    }
+
+    const canonicalUrl = normalizeUrl(page.canonical ?? page.finalUrl);
+    const canonical = new URL(canonicalUrl);
+    if (!isSameHost(root, canonical) || isBlockedPath(canonical, includePdfs)) {
+      page.cleanup();
+      dispatch();
+      report();
+      continue;
+    }
+    if (!robots.allows(canonical.pathname)) {
+      skippedByRobots.add(canonicalUrl);
+      page.cleanup();
+      dispatch();
+      report();
+      continue;
+    }
+
+    const links = resolveLinks(page.links, canonical.href);
+
+    if (!recorded.has(canonicalUrl)) {
+      const pageType = page.document ? inferType(canonical, page.document) : "docs";
+      const extraction = page.document
+        ? extractFromDocument(page.document, page.finalUrl, page.encoding)
+        : page.extraction;
+      const markdown = extraction.markdown;
+      const contentHash = hashContent(markdown);
+      const previousPage = previousByUrl.get(canonicalUrl);
+      const unchanged = previousPage?.contentHash === contentHash;
+      // What the site itself says, most specific first.
+      const sourceLastmod =
+        toIsoDate(page.modifiedTime) ??
+        toIsoDate(page.lastModified) ??
+        lastmodByUrl.get(canonicalUrl) ??
+        current.lastmod;
+
+      let lastmod: string | undefined;
+      if (!previousPage) {
+        lastmod = sourceLastmod ?? (options.previous ? crawlStartedAt : undefined);
+      } else if (unchanged) {
+        lastmod = previousPage.lastmod ?? options.previous?.generatedAt;
+      } else {
+        // Only trust the site's date if it moved past what we recorded last time.
+        const previousTime = Date.parse(previousPage.lastmod ?? "") || 0;
+        lastmod =
+          sourceLastmod && Date.parse(sourceLastmod) > previousTime
+            ? sourceLastmod
+            : crawlStartedAt;
+      }
+
+      recordPage(
+        {
+          url: canonicalUrl,
+          ai_url: buildAiUrl(canonical, siteDomain),
+          type: pageType,
+          priority: priorityForType(pageType),
+          lastmod,
+          alternates: page.alternates.length ? page.alternates : undefined,
+          images: page.images.length ? page.images : undefined,
+          videos: page.videos.length ? page.videos : undefined,
+          change_status: previousPage ? (unchanged ? "unchanged" : "modified") : undefined,
+        },
+        {
+          depth: current.depth,
+          etag: page.etag,
+          lastModified: page.lastModified,
+          contentHash,
+          markdown,
+          links,
+          title: extraction.title,
+          description: page.description,
+          metadata: extraction.metadata,
+        }
+      );
+    }
+
+    const fingerprint = fingerprints[canonicalUrl];
+    if (fingerprint && requestedUrl !== canonicalUrl) {
+      fingerprint.sources = Array.from(new Set([...(fingerprint.sources ?? []), requestedUrl]));
+    }
+
+    enqueueLinks(links, current.depth);
+
+    page.cleanup();
+    dispatch();
+    report();
+  }
+
+  // Fetches still in flight when the cap was reached are discarded.
+  for (const pending of inFlight) {
+    void pending.result.then((page) => {
+      if (page && "cleanup" in page) {
+        page.cleanup();
+      }
+    });
+  }
+
+  // A failed fetch or the page cap says nothing about whether a page is gone.
+  for (const previousPage of previousByUrl.values()) {
+    if (!recorded.has(previousPage.url) && !settled.has(previousPage.url)) {
+      carryForward(previousPage, revisitDepth(previousPage));
+    }
+  }
+
+  report();
+
+  const removed = Array.from(previousByUrl.values())
+    .filter((page) => !recorded.has(page.url))
+    .map<PageEntry>((page) => ({
+      url: page.url,
+      ai_url: page.ai_url,
+      type: page.type,
+      priority: page.priority,
+      lastmod: page.lastmod,
+      change_status: "removed",
+    }));
+
+  return {
+    site: siteDomain,
+    rootUrl: normalizedRoot,
+    generatedAt: new Date().toISOString(),
+    pages,
+    removed,
+    fingerprints,
+  };
+}
+
+/**
+ * Spaces out requests to the same host by at least `delayMs`, regardless of
+ * how many workers are waiting on it.
+ */
+function createHostThrottle(delayMs: number) {
+  const nextSlot = new Map<string, number>();
+  return async (hostname: string) => {
+    const key = hostKey(hostname);
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot.get(key) ?? 0);
+    nextSlot.set(key, slot + delayMs);
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  };
+}
+
+async function fetchPage(
+  url: string,
+  previous?: Partial<PageFingerprint>,
+  includePdfs = false
+): Promise<FetchResult | NotModifiedResult | GoneResult | undefined> {
+  const headers: Record<string, string> = {
+    "User-Agent": CRAWLER_USER_AGENT,
+    Accept: includePdfs
+      ? "text/html,application/xhtml+xml,application/pdf;q=0.9"
+      : "text/html,application/xhtml+xml",
+  };
+  // Validators are only useful when we still have the content they vouch for.
+  if (previous?.contentHash) {
+    if (previous.etag) {
+      headers["If-None-Match"] = previous.etag;
+    }
+    if (previous.lastModified) {
+      headers["If-Modified-Since"] = previous.lastModified;
+    }
+  }
+
+  const response = await safeFetch(url, {
+    headers,
+    cache: "no-store",
+  }).catch(() => undefined);
+
+  if (response?.status === 304 && previous?.contentHash) {
+    return { notModified: true };
+  }
+  if (response?.status === 404 || response?.status === 410) {
+    await response.body?.cancel().catch(() => undefined);
+    return { gone: true };
+  }
+
+  if (!response || !response.ok) {
+    return undefined;
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (includePdfs && isPdfResponse(contentType, response.url || url)) {
+    return fetchPdf(response, url);
+  }
+  if (!contentType.includes("text/html")) {
+    return undefined;
+  }
+
+  // Oversized, stalled and broken bodies all count as a failed fetch.
+  const buffer = await readBodyWithLimit(response, MAX_DOCUMENT_BYTES).catch(() => undefined);
+  if (!buffer?.byteLength) {
+    return undefined;
+  }
+
+  const { text: html, encoding } = decodeHtml(buffer, contentType);
+  const dom = new JSDOM(html, { url: response.url || url });
+  const document = dom.window.document;
+  const canonical = collectCanonical(document);
+  const links = extractLinks(document);
+  const alternates = collectAlternates(document);
+  const images = collectImages(document);
+  const videos = collectVideos(document);
+  const description =
+    readMeta(document, "meta[name='description']") ??
+    readMeta(document, "meta[property='og:description']");
+  const modifiedTime = document
+    .querySelector("meta[property='article:modified_time']")
+    ?.getAttribute("content")
+    ?.trim();
+
+  return {
+    finalUrl: response.url || url,
+    canonical,
+    document,
+    links,
+    alternates,
+    images,
+    videos,
+    description,
+    modifiedTime,
+    encoding,
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+    cleanup: () => dom.window.close(),
+  };
+}
+
+async function fetchPdf(response: Response, url: string): Promise<FetchResult | undefined> {
+  const buffer = await readBodyWithLimit(response, MAX_PDF_BYTES).catch(() => undefined);
+  if (!buffer?.byteLength) {
+    return undefined;
+  }
+  const finalUrl = response.url || url;
+  const extraction = await extractFromPdf(buffer, finalUrl).catch(() => undefined);
+  if (!extraction) {
+    return undefined;
+  }
+
+  return {
+    finalUrl,
+    extraction,
+    links: [],
+    alternates: [],
+    images: [],
+    videos: [],
+    modifiedTime: extraction.metadata.updated ?? extraction.metadata.published,
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+    cleanup: () => undefined,
+  };
+}
+
+function resolveLinks(hrefs: string[], base: string): string[] {
+  const resolved = new Set<string>();
+  for (const href of hrefs) {
+    try {
+      resolved.add(normalizeUrl(href, base));
+    } catch {
+      continue;
+    }
+  }
+  return Array.from(resolved);
+}
+
+function hashContent(markdown: string): string {
+  return createHash("sha256").update(markdown).digest("hex");
+}
+
+function collectCanonical(document: Document): string | undefined {
+  const node = document.querySelector("link[rel='canonical']");
+  return node?.getAttribute("href")?.trim();
+}
+
+function collectAlternates(document: Document): PageAlternate[] {
+  const alternates = new Map<string, PageAlternate>();
+  for (const node of document.querySelectorAll("link[rel~='alternate'][hreflang]")) {
+    const hreflang = node.getAttribute("hreflang")?.trim();
+    const href = node.getAttribute("href")?.trim();
+    if (!hreflang || !href) {
+      continue;
+    }
+    // Keep query strings: language variants are often selected by parameter.
+    try {
+      const resolved = new URL(href, document.URL);
+      resolved.hash = "";
+      alternates.set(hreflang.toLowerCase(), { hreflang, href: resolved.toString() });
+    } catch {
+      continue;
+    }
+  }
+  return Array.from(alternates.values());
+}
+
+function collectImages(document: Document): PageImage[] {
+  const images = new Map<string, PageImage>();
+  for (const node of document.querySelectorAll("img")) {
+    if (images.size >= MAX_IMAGES_PER_PAGE) {
+      break;
+    }
+    const loc = resolveMediaUrl(
+      node.getAttribute("src") ?? node.getAttribute("data-src"),
+      document.URL
+    );
+    if (!loc || images.has(loc)) {
+      continue;
+    }
+    const caption = node.closest("figure")?.querySelector("figcaption")?.textContent;
+    images.set(loc, {
+      loc,
+      title: cleanText(node.getAttribute("alt")),
+      caption: cleanText(caption),
+    });
+  }
+  return Array.from(images.values());
+}
+
+/**
+ * Collects `<video>` elements and YouTube/Vimeo embeds. Video sitemaps need a
+ * thumbnail, title and description, so page-level Open Graph values fill gaps
+ * and videos that still lack a thumbnail are dropped.
+ */
+function collectVideos(document: Document): PageVideo[] {
+  const pageTitle =
+    readMeta(document, "meta[property='og:title']") ?? cleanText(document.title) ?? "";
+  const pageDescription =
+    readMeta(document, "meta[property='og:description']") ??
+    readMeta(document, "meta[name='description']") ??
+    pageTitle;
+  const pageImage = resolveMediaUrl(readMeta(document, "meta[property='og:image']"), document.URL);
+
+  const videos: PageVideo[] = [];
+  const seen = new Set<string>();
+  const push = (video: Omit<PageVideo, "title" | "description"> & { title?: string }) => {
+    const key = video.content_loc ?? video.player_loc;
+    if (!key || seen.has(key) || !video.thumbnail_loc || videos.length >= MAX_VIDEOS_PER_PAGE) {
+      return;
+    }
+    seen.add(key);
+    videos.push({
+      ...video,
+      title: video.title || pageTitle || key,
+      description: pageDescription || video.title || pageTitle || key,
+    });
+  };
+
+  for (const node of document.querySelectorAll("video")) {
+    const source =
+      node.getAttribute("src") ?? node.querySelector("source[src]")?.getAttribute("src");
+    const duration = Number(node.getAttribute("data-duration"));
+    push({
+      content_loc: resolveMediaUrl(source, document.URL),
+      thumbnail_loc: resolveMediaUrl(node.getAttribute("poster"), document.URL) ?? pageImage ?? "",
+      title: cleanText(node.getAttribute("title") ?? node.getAttribute("aria-label")),
+      duration: Number.isFinite(duration) && duration > 0 ? Math.round(duration) : undefined,
+    });
+  }
+
+  for (const node of document.querySelectorAll("iframe[src]")) {
+    const player = resolveMediaUrl(node.getAttribute("src"), document.URL);
+    if (!player) {
+      continue;
+    }
+    const youtubeId = player.match(/youtube(?:-nocookie)?\.com\/embed\/([\w-]{6,})/)?.[1];
+    if (!youtubeId && !/player\.vimeo\.com\/video\//.test(player)) {
+      continue;
+    }
+    push({
+      player_loc: player,
+      thumbnail_loc: youtubeId
+        ? `https://i.ytimg.com/vi/${youtubeId}/hqdefault.jpg`
+        : pageImage ?? "",
+      title: cleanText(node.getAttribute("title")),
+    });
+  }
+
+  const ogVideo = resolveMediaUrl(
+    readMeta(document, "meta[property='og:video:secure_url']") ??
+      readMeta(document, "meta[property='og:video']"),
+    document.URL
+  );
+  if (ogVideo) {
+    push({ content_loc: ogVideo, thumbnail_loc: pageImage ?? "" });
+  }
+
+  return videos;
+}
+
+function resolveMediaUrl(value: string | null | undefined, base: string): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed || trimmed.startsWith("data:")) {
+    return undefined;
+  }
+  try {
+    const url = new URL(trimmed, base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return undefined;
+    }
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function readMeta(document: Document, selector: string): string | undefined {
+  return cleanText(document.querySelector(selector)?.getAttribute("content"));
+}
+
+function cleanText(value: string | null | undefined): string | undefined {
+  const text = value?.replace(/\s+/g, " ").trim();
+  return text || undefined;
+}
+
+function toIsoDate(value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function extractLinks(document: Document): string[] {
+  const anchors = Array.from(document.querySelectorAll("a[href]"));
+  return anchors
+    .map((anchor) => anchor.getAttribute("href")?.trim() ?? "")
+    .filter((href) => {
+      if (!href || href.startsWith("#")) {
+        return false;
+      }
+      if (href.startsWith("mailto:") || href.startsWith("tel:")) {
+        return false;
+      }
+      if (href.toLowerCase().startsWith("javascript:")) {
+        return false;
+      }
+      return true;
+    });
+}
+
+export function normalizeUrl(input: string, base?: string): string {
+  let target: URL;
+  try {
+    const hasProtocol = /^https?:\/\//i.test(input);
+    if (hasProtocol) {
+      target = new URL(input);
+    } else if (base) {
+      target = new URL(input, base);
+    } else {
+      target = new URL(`https://${input}`);
+    }
+  } catch {
+    throw new Error(`Unable to normalize URL: ${input}`);
+  }
+
+  target.protocol = "https:";
+  target.hash = "";
+  target.search = "";
+  if (target.pathname !== "/") {
+    target.pathname = target.pathname.replace(/\/+$/, "");
+    if (target.pathname === "") {
+      target.pathname = "/";
+    }
+  }
+  return target.toString();
+}
+
+function buildAiUrl(url: URL, domain: string): string {
+  const path = url.pathname === "/" ? "/" : url.pathname;
+  return `https://ai.${domain}${path}`;
+}
+
+export function buildSitemapXml(
+  site: string,
+  pages: PageEntry[],
+  generatedAt: string,
+  options: SitemapOptions = {}
+): string {
+  const images = options.images ? pages.some((page) => page.images?.length) : false;
+  const videos = options.videos ? pages.some((page) => page.videos?.length) : false;
+
+  const urlEntries = pages
+    .map((page) => {
+      const priority = page.priority.toFixed(2);
+      return [
+        "  <url>",
+        `    <loc>${escapeXml(page.url)}</loc>`,
+        `    <lastmod>${escapeXml(page.lastmod ?? generatedAt)}</lastmod>`,
+        ...(page.changefreq ? [`    <changefreq>${page.changefreq}</changefreq>`] : []),
+        `    <priority>${priority}</priority>`,
+        ...(page.alternates ?? []).map(
+          (alternate) =>
+            `    <xhtml:link rel="alternate" hreflang="${escapeXml(alternate.hreflang)}" href="${escapeXml(alternate.href)}"/>`
+        ),
+        ...(images ? (page.images ?? []).map(formatImageEntry) : []),
+        ...(videos ? (page.videos ?? []).map(formatVideoEntry) : []),
+        "  </url>",
+      ].join("\n");
+    })
+    .join("\n");
+
+  const body = urlEntries || "  <!-- No crawlable pages found -->";
+  const hasAlternates = pages.some((page) => page.alternates?.length);
+
+  return [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"',
+    ...(hasAlternates ? ['        xmlns:xhtml="http://www.w3.org/1999/xhtml"'] : []),
+    ...(images ? ['        xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"'] : []),
+    ...(videos ? ['        xmlns:video="http://www.google.com/schemas/sitemap-video/1.1"'] : []),
+    '        xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '        xsi:schemaLocation="http://www.sitemaps.org/schemas/sitemap/0.9 http://www.sitemaps.org/schemas/sitemap/0.9/sitemap.xsd">',
+    `  <!--  created with Traffic Bifurcate crawler for ${escapeXml(site)} at ${escapeXml(
+      generatedAt
+    )}  -->`,
+    body,
+    "</urlset>",
+  ].join("\n");
+}
+
+function formatImageEntry(image: PageImage): string {
+  return [
+    "    <image:image>",
+    `      <image:loc>${escapeXml(image.loc)}</image:loc>`,
+    ...(image.title ? [`      <image:title>${escapeXml(image.title)}</image:title>`] : []),
+    ...(image.caption ? [`      <image:caption>${escapeXml(image.caption)}</image:caption>`] : []),
+    "    </image:image>",
+  ].join("\n");
+}
+
+function formatVideoEntry(video: PageVideo): string {
+  return [
+    "    <video:video>",
+    `      <video:thumbnail_loc>${escapeXml(video.thumbnail_loc)}</video:thumbnail_loc>`,
+    `      <video:title>${escapeXml(video.title)}</video:title>`,
+    `      <video:description>${escapeXml(video.description)}</video:description>`,
+    ...(video.content_loc
+      ? [`      <video:content_loc>${escapeXml(video.content_loc)}</video:content_loc>`]
+      : []),
+    ...(video.player_loc
+      ? [`      <video:player_loc>${escapeXml(video.player_loc)}</video:player_loc>`]
+      : []),
+    ...(video.duration ? [`      <video:duration>${video.duration}</video:duration>`] : []),
+    "    </video:video>",
+  ].join("\n");
+}
+
+export function buildMarkdownSummary(
+  site: string,
+  pages: PageEntry[],
+  generatedAt: string
+): string {
+  const header = [`# AI Mirror Coverage for ${site}`, `Generated ${generatedAt}`];
+
+  if (!pages.length) {
+    return `${header.join("\n\n")}\n\n_No crawlable pages found._\n`;
+  }
+
+  const table = [
+    "| # | Human URL | AI Mirror URL | Type | Priority |",
+    "| --- | --- | --- | --- | --- |",
+    ...pages.map((page, index) => {
+      const human = formatMarkdownLink(page.url);
+      const mirror = formatMarkdownLink(page.ai_url);
+      const type = page.type;
+      const priority = page.priority.toFixed(2);
+      return `| ${index + 1} | ${human} | ${mirror} | ${type} | ${priority} |`;
+    }),
+  ];
+
+  return `${header.join("\n\n")}\n\n${table.join("\n")}\n`;
+}
+
+export function buildMarkdownEntries(pages: PageEntry[]): MarkdownEntry[] {
+  return pages.map((page, index) => {
+    const heading = `Page ${index + 1}: ${formatPageHeading(page)}`;
+    const lines = [
+      "---",
+      "type: ai-mirror-page",
+      `source_url: ${page.url}`,
+      `canonical: ${page.url}`,
+      `page_type: ${page.type}`,
+      `intent: ${intentForType(page.type)}`,
+      "language: en",
+      `priority: ${page.priority.toFixed(2)}`,
+      ...(page.lastmod ? [`lastmod: ${page.lastmod}`] : []),
+      ...(page.changefreq ? [`changefreq: ${page.changefreq}`] : []),
+      "---",
+      "",
+      `# ${heading}`,
+      "",
+      "## Human URL",
+      page.url,
+      "",
+      "## AI Mirror URL",
+      page.ai_url,
+      "",
+      "## Summary",
+      "_Replace this section with the AI-specific copy for this route._",
+      "",
+      "## Key Sections",
+      "- Heading 1",
+      "- Heading 2",
+      "- Call to Action",
+      "",
+      "## Notes",
+      "- Describe the AI intent and guardrails for this mirror page.",
+    ];
+    return {
+      url: page.url,
+      markdown: lines.join("\n"),
+    };
+  });
+}
+
+function intentForType(type: PageType): string {
+  switch (type) {
+    case "product":
+      return "transactional";
+    case "category":
+      return "navigational";
+    case "homepage":
+      return "overview";
+    case "docs":
+    case "article":
+      return "informational";
+    default:
+      return "informational";
+  }
+}
+
+function formatPageHeading(page: PageEntry): string {
+  if (page.type === "homepage") {
+    return "Homepage";
+  }
+  return page.type
+    .split("-")
+    .map((chunk) => chunk.charAt(0).toUpperCase() + chunk.slice(1))
+    .join(" ");
+}
+
+export function formatMarkdownLink(value: string): string {
+  const label = value.replace(/\|/g, "\\|");
+  return `[${label}](${value})`;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function isSameHost(root: URL, candidate: URL): boolean {
+  return hostKey(root.hostname) === hostKey(candidate.hostname);
+}
+
+function hostKey(value: string): string {
+  return value.replace(/^www\./i, "").toLowerCase();
+}
+
+function isBlockedPath(url: URL, allowPdfs = false): boolean {
+  const path = url.pathname.toLowerCase();
+  if (allowPdfs && path.endsWith(".pdf")) {
+    return BLOCKED_SEGMENTS.some((pattern) => pattern.test(path));
+  }
+  if (STATIC_EXTENSIONS.some((ext) => path.endsWith(ext))) {
+    return true;
+  }
+  return BLOCKED_SEGMENTS.some((pattern) => pattern.test(path));
+}
+
+function inferType(url: URL, document: Document): PageType {
+  const path = url.pathname.toLowerCase();
+  const ogType = document
+    .querySelector("meta[property='og:type']")
+    ?.getAttribute("content")
+    ?.toLowerCase();
+
+  if (path === "/") {
+    return "homepage";
+  }
+  if (ogType === "product" || /\/product|\/pricing/.test(path)) {
+    return "product";
+  }
+  if (ogType === "article" || document.querySelector("meta[property='article:published_time']")) {
+    return "article";
+  }
+  if (/\/blog|\/news/.test(path)) {
+    return "article";
+  }
+  if (/\/docs|\/documentation|\/guide/.test(path)) {
+    return "docs";
+  }
+  if (/\/category|\/collections|\/topics/.test(path)) {
+    return "category";
+  }
+  return "category";
+}
+
+function priorityForType(type: PageType): number {
+  switch (type) {
+    case "homepage":
+      return 1.0;
+    case "product":
+    case "docs":
+      return 0.8;
+    case "article":
+      return 0.6;
+    default:
+      return 0.5;
+  }
+}
+
+// Anything but a positive whole number falls back to the default.
+function readPageLimit(value: string | undefined, fallback: number): number {
+  if (!value) {
+    return fallback;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    console.warn(`Ignoring invalid CRAWL_MAX_PAGES "${value}"; using ${fallback}.`);
+    return fallback;
+  }
+  return limit;
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  if (Number.isNaN(value)) {
+    return min;
+  }
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { isValidCron, nextCronRun, parseCron } from "@/lib/cron";
+
+// Monday, 1 January 2024, 12:00 UTC.
+const start = new Date("2024-01-01T12:00:00.000Z");
+
+function runs(expression: string, count = 4, after = start): string[] {
+  const cron = parseCron(expression);
+  const dates: string[] = [];
+  let current = after;
+  for (let index = 0; index < count; index += 1) {
+    const next = nextCronRun(cron, current);
+    if (!next) {
+      break;
+    }
+    dates.push(next.toISOString());
+    current = next;
+  }
+  return dates;
+}
+
+describe("parseCron", () => {
+  it("treats day fields starting with * or a bare ? as wildcards", () => {
+    for (const [expression, dayOfMonth, dayOfWeek] of [
+      ["0 0 * * *", true, true],
+      ["0 0 ? * ?", true, true],
+      ["0 0 */2 * */2", true, true],
+      ["0 0 1 * 1-5", false, false],
+      ["0 0 * * 0,3", true, false],
+    ] as const) {
+      const cron = parseCron(expression);
+      expect([cron.dayOfMonth.wildcard, cron.dayOfWeek.wildcard], expression).toEqual([
+        dayOfMonth,
+        dayOfWeek,
+      ]);
+    }
+  });
+
+  it("expands macros, names and Sunday as 7", () => {
+    const cron = parseCron("@weekly");
+    expect(cron.dayOfWeek.values).toEqual(new Set([0]));
+    expect(parseCron("0 0 * jan-mar sun,7").month.values).toEqual(new Set([1, 2, 3]));
+    expect(parseCron("0 0 * * SUN,7").dayOfWeek.values).toEqual(new Set([0]));
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(isValidCron("0 0 * *")).toBe(false);
+    expect(isValidCron("60 0 * * *")).toBe(false);
+    expect(isValidCron("0 0 * * */0")).toBe(false);
+    expect(isValidCron("0 0 5-1 * *")).toBe(false);
+    expect(isValidCron("*/15 9-17 * * mon-fri")).toBe(true);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next minute strictly after the given time", () => {
+    expect(runs("*/20 12 * * *", 3)).toEqual([
+      "2024-01-01T12:20:00.000Z",
+      "2024-01-01T12:40:00.000Z",
+      "2024-01-02T12:00:00.000Z",
+    ]);
+  });
+
+  it("requires both day fields when only one is restricted", () => {
+    expect(runs("0 0 * * 1", 2)).toEqual(["2024-01-08T00:00:00.000Z", "2024-01-15T00:00:00.000Z"]);
+    expect(runs("0 0 15 * ?", 2)).toEqual(["2024-01-15T00:00:00.000Z", "2024-02-15T00:00:00.000Z"]);
+  });
+
+  it("fires on either day field when both are restricted", () => {
+    // The 5th (a Friday) or any Wednesday.
+    expect(runs("0 0 5 * wed", 4)).toEqual([
+      "2024-01-03T00:00:00.000Z",
+      "2024-01-05T00:00:00.000Z",
+      "2024-01-10T00:00:00.000Z",
+      "2024-01-17T00:00:00.000Z",
+    ]);
+  });
+
+  it("requires both day fields when day-of-week is stepped from *", () => {
+    // The 1st, but only on a Sunday, Tuesday, Thursday or Saturday.
+    expect(runs("0 0 1 * */2", 2)).toEqual([
+      "2024-02-01T00:00:00.000Z",
+      "2024-06-01T00:00:00.000Z",
+    ]);
+  });
+
+  it("requires both day fields when day-of-month is stepped from *", () => {
+    // The 1st, 11th, 21st and 31st, but only on a Monday.
+    expect(runs("0 0 */10 * mon", 2)).toEqual([
+      "2024-03-11T00:00:00.000Z",
+      "2024-04-01T00:00:00.000Z",
+    ]);
+  });
+
+  it("skips months without the requested day", () => {
+    expect(runs("0 0 31 * *", 2)).toEqual(["2024-01-31T00:00:00.000Z", "2024-03-31T00:00:00.000Z"]);
+    expect(runs("0 0 29 2 *", 1)).toEqual(["2024-02-29T00:00:00.000Z"]);
+  });
+
+  it("returns undefined for dates that never occur", () => {
+    expect(nextCronRun("0 0 30 2 *", start)).toBeUndefined();
+  });
+});
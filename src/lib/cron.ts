@@ -0,0 +1,180 @@
+/**
+ * Minimal five-field cron expressions (minute hour day-of-month month
+ * day-of-week), evaluated in UTC. Supports `*`, lists, ranges, steps, month
+ * and weekday names, and the usual `@daily`-style macros.
+ */
+
+export type CronField = {
+  values: Set<number>;
+  wildcard: boolean;
+};
+
+export type CronExpression = {
+  source: string;
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+};
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Give up after this many candidate steps; covers impossible dates like Feb 30.
+const MAX_SEARCH_STEPS = 5 * 366 * 24;
+
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim().replace(/\s+/g, " ");
+  const expanded = MACROS[source.toLowerCase()] ?? source;
+  const parts = expanded.split(" ");
+  if (parts.length !== 5) {
+    throw new Error("Cron expressions need five fields: minute hour day month weekday.");
+  }
+
+  const dayOfWeek = parseField(parts[4], 0, 7, DAY_NAMES);
+  // Both 0 and 7 mean Sunday.
+  if (dayOfWeek.values.delete(7)) {
+    dayOfWeek.values.add(0);
+  }
+
+  return {
+    source,
+    minute: parseField(parts[0], 0, 59),
+    hour: parseField(parts[1], 0, 23),
+    dayOfMonth: parseField(parts[2], 1, 31),
+    month: parseField(parts[3], 1, 12, MONTH_NAMES, 1),
+    dayOfWeek,
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the first matching minute strictly after `after`, or undefined when
+ * the expression can never fire.
+ */
+export function nextCronRun(expression: CronExpression | string, after: Date): Date | undefined {
+  const cron = typeof expression === "string" ? parseCron(expression) : expression;
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step += 1) {
+    if (!cron.month.values.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    const minute = nextValue(cron.minute.values, candidate.getUTCMinutes());
+    if (minute === undefined) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    candidate.setUTCMinutes(minute);
+    return candidate;
+  }
+
+  return undefined;
+}
+
+// Vixie cron semantics: when both day fields are restricted, either may match.
+// A field starting with `*` (so `*/2` too) or `?` counts as unrestricted.
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const domMatch = cron.dayOfMonth.values.has(date.getUTCDate());
+  const dowMatch = cron.dayOfWeek.values.has(date.getUTCDay());
+  if (!cron.dayOfMonth.wildcard && !cron.dayOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+function nextValue(values: Set<number>, from: number): number | undefined {
+  let best: number | undefined;
+  for (const value of values) {
+    if (value >= from && (best === undefined || value < best)) {
+      best = value;
+    }
+  }
+  return best;
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): CronField {
+  const values = new Set<number>();
+  const wildcard = isWildcard(field);
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron field "${field}".`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*" || range === "?") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, names, nameOffset);
+      end = parseValue(to, names, nameOffset);
+    } else {
+      start = parseValue(range, names, nameOffset);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (Number.isNaN(start) || Number.isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Cron field "${field}" must be within ${min}-${max}.`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard };
+}
+
+function isWildcard(field: string): boolean {
+  return field.startsWith("*") || field === "?";
+}
+
+function parseValue(token: string, names: string[] | undefined, nameOffset: number): number {
+  const index = names?.indexOf(token.toLowerCase()) ?? -1;
+  if (index !== -1) {
+    return index + nameOffset;
+  }
+  return /^\d+$/.test(token) ? Number(token) : Number.NaN;
+}
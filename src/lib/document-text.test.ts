@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { cleanText, titleFromUrl } from "@/lib/document-text";
+
+describe("titleFromUrl", () => {
+  it("turns the last path segment into words", () => {
+    expect(titleFromUrl("https://example.com/docs/annual-report_2024.pdf")).toBe(
+      "annual report 2024"
+    );
+    expect(titleFromUrl("https://example.com/notes/%E2%9C%93-done.md")).toBe("✓ done");
+  });
+
+  it("keeps a malformed escape instead of throwing", () => {
+    expect(titleFromUrl("https://example.com/files/%E0%A4.pdf")).toBe("%E0%A4");
+  });
+
+  it("falls back to Untitled", () => {
+    expect(titleFromUrl("https://example.com/")).toBe("Untitled");
+  });
+});
+
+describe("cleanText", () => {
+  it("collapses whitespace and drops empty values", () => {
+    expect(cleanText("  a \n b  ")).toBe("a b");
+    expect(cleanText(" \n ")).toBeUndefined();
+    expect(cleanText()).toBeUndefined();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Small text helpers shared by the non-HTML extractors (PDF, Markdown,
+ * plain text and JSON) and the MDF serializer.
+ */
+
+// Collapses whitespace; empty results become undefined.
+export function cleanText(value?: string): string | undefined {
+  const text = value?.replace(/\s+/g, " ").trim();
+  return text || undefined;
+}
+
+/**
+ * A readable title from the URL's last path segment, for documents that do
+ * not name themselves: `annual-report_2024.pdf` becomes `annual report 2024`.
+ */
+export function titleFromUrl(url: string): string {
+  const segment = new URL(url).pathname.split("/").pop() ?? "";
+  let name = segment;
+  try {
+    name = decodeURIComponent(segment);
+  } catch {
+    // A malformed escape such as `%E0%A4` is kept as written.
+  }
+  return name.replace(/\.\w+$/, "").replace(/[-_]+/g, " ").trim() || "Untitled";
+}
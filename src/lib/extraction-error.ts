@@ -0,0 +1,11 @@
+// Carries the HTTP status the API should answer with. Lives on its own so the
+// fetch helpers can throw it without importing the extractor.
+export class ExtractionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "ExtractionError";
+    this.status = status;
+  }
+}
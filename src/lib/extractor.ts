@@ -1,9 +1,14 @@
 import { Readability } from "@mozilla/readability";
 import { JSDOM } from "jsdom";
 import TurndownService from "turndown";
+import { decodeHtml, decodeText } from "@/lib/charset";
+import { ExtractionError } from "@/lib/extraction-error";
+import { serializeMdf } from "@/lib/mdf";
+import { extractFromPdf, isPdfResponse, MAX_PDF_BYTES } from "@/lib/pdf-extractor";
+import { CRAWLER_USER_AGENT, fetchRobotsPolicy } from "@/lib/robots";
+import { assertPublicUrl, readBodyWithLimit, safeFetch } from "@/lib/safe-fetch";
+import { extractFromText, textSourceKind, type TextSourceKind } from "@/lib/text-extractor";
 
-const USER_AGENT =
-  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36";
 const MAX_DOCUMENT_BYTES = 3 * 1024 * 1024;
 const FALLBACK_CONTENT =
   "*No extractable content—site returned an error page or unsupported markup.*";
@@ -23,6 +28,8 @@ export type ExtractedMetadata = {
   updated?: string;
   language?: string;
   contentType?: string;
+  // Character encoding the source document was decoded with.
+  encoding?: string;
   primaryTopics: string[];
   entities: string[];
 };
@@ -35,73 +42,131 @@ export type ExtractionResult = {
   metadata: ExtractedMetadata;
 };
 
-export class ExtractionError extends Error {
-  status: number;
+// `mdf` is the documented MDF contract; `outline` lists the page's headings,
+// paragraphs, lists and code blocks in document order without Readability.
+export type ExtractionMode = "mdf" | "outline";
 
-  constructor(message: string, status = 500) {
-    super(message);
-    this.name = "ExtractionError";
-    this.status = status;
-  }
-}
+export type OutlineBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "code"; language?: string; code: string };
+
+export type StructuredOutline = {
+  title: string;
+  url: string;
+  canonical: string;
+  description?: string;
+  blocks: OutlineBlock[];
+  links: Array<{ text: string; href: string }>;
+};
+
+export { ExtractionError };
+
+type FetchedSource =
+  | { kind: "html"; html: string; finalUrl: string; encoding: string }
+  | { kind: "pdf"; data: Uint8Array; finalUrl: string }
+  | { kind: TextSourceKind; text: string; finalUrl: string; encoding: string };
 
+/**
+ * Extracts an HTML page, a PDF document, or a Markdown, plain-text or JSON
+ * file into the MDF result shape.
+ */
 export async function extractStructuredContent(
   inputUrl: string
 ): Promise<ExtractionResult> {
-  const normalizedUrl = normalizeUrl(inputUrl);
-  const { html, finalUrl } = await fetchHtml(normalizedUrl);
-  const dom = new JSDOM(html, { url: finalUrl });
+  const source = await loadSource(inputUrl);
+  if (source.kind === "pdf") {
+    return extractFromPdf(source.data, source.finalUrl);
+  }
+  if (source.kind !== "html") {
+    return extractFromText(source.kind, source.text, source.finalUrl, source.encoding);
+  }
+  return withDocument(source, extractFromDocument);
+}
 
-  try {
-    const document = dom.window.document;
-    const reader = new Readability(document);
-    const article = reader.parse();
+/**
+ * Fetches a page through the same checks as `extractStructuredContent` and
+ * returns its structured outline instead of the MDF body.
+ */
+export async function extractOutline(inputUrl: string): Promise<StructuredOutline> {
+  const source = await loadSource(inputUrl);
+  if (source.kind !== "html") {
+    throw new ExtractionError("Outline mode is only available for HTML pages.", 400);
+  }
+  return withDocument(source, outlineFromDocument);
+}
 
-    const canonical = collectCanonical(document) ?? finalUrl;
-    const markdown = toMarkdown(
-      article?.content ?? document.querySelector("main")?.innerHTML ?? ""
-    );
+/**
+ * Runs the MDF extraction on an already parsed document. Readability mutates
+ * the DOM, so callers must read anything else they need from it first.
+ */
+export function extractFromDocument(
+  document: Document,
+  finalUrl: string,
+  encoding?: string
+): ExtractionResult {
+  const reader = new Readability(document);
+  const article = reader.parse();
+
+  const canonical = collectCanonical(document) ?? finalUrl;
+  const markdown = toMarkdown(
+    article?.content ?? document.querySelector("main")?.innerHTML ?? ""
+  );
 
-    const metadata = collectMetadata(document, {
-      canonical,
-      articleDetected: Boolean(article),
-    });
-
-    return {
-      title: sanitizeLine(article?.title ?? document.title ?? "Untitled"),
-      url: finalUrl,
-      canonical,
-      markdown: markdown || FALLBACK_CONTENT,
-      metadata,
-    };
-  } finally {
-    dom.window.close();
-  }
+  const metadata = collectMetadata(document, {
+    canonical,
+    articleDetected: Boolean(article),
+    encoding,
+  });
+
+  return {
+    title: sanitizeLine(article?.title ?? document.title ?? "Untitled"),
+    url: finalUrl,
+    canonical,
+    markdown: markdown || FALLBACK_CONTENT,
+    metadata,
+  };
 }
 
+// Serialized as MDF v1; see `@/lib/mdf` for the layout, parser and validator.
 export function formatAsMdf(result: ExtractionResult): string {
+  return serializeMdf(result);
+}
+
+export function formatAsOutline(outline: StructuredOutline): string {
+  const body = outline.blocks.map((block) => {
+    switch (block.type) {
+      case "heading":
+        return `${"#".repeat(block.level)} ${block.text}`;
+      case "paragraph":
+        return block.text;
+      case "list":
+        return block.items
+          .map((item, index) => `${block.ordered ? `${index + 1}.` : "-"} ${item}`)
+          .join("\n");
+      case "code":
+        return `\`\`\`${block.language ?? ""}\n${block.code.trim()}\n\`\`\``;
+    }
+  });
+
   const lines = [
-    `# ${result.title}`,
+    `# ${outline.title}`,
     "",
     "## URL",
-    result.url,
+    outline.url,
     "",
     "## Canonical",
-    result.canonical,
+    outline.canonical,
     "",
-    "## Content",
-    result.markdown,
+    "## Description",
+    outline.description ?? "",
     "",
-    "## Metadata",
-    `- Author: ${result.metadata.author ?? ""}`,
-    `- Published Date: ${result.metadata.published ?? ""}`,
-    `- Updated Date: ${result.metadata.updated ?? ""}`,
-    `- Language: ${result.metadata.language ?? ""}`,
+    "## Outline",
+    body.join("\n\n"),
     "",
-    "## Schema Hints",
-    `- Content Type: ${result.metadata.contentType ?? ""}`,
-    `- Primary Topics: ${result.metadata.primaryTopics.join(", ")}`,
-    `- Entities Mentioned: ${result.metadata.entities.join(", ")}`,
+    "## Links",
+    ...outline.links.map((link) => `- [${link.text}](${link.href})`),
   ];
 
   return lines
@@ -111,6 +176,111 @@ export function formatAsMdf(result: ExtractionResult): string {
     .concat("\n");
 }
 
+async function loadSource(inputUrl: string): Promise<FetchedSource> {
+  const normalizedUrl = normalizeUrl(inputUrl);
+  // Checked before robots.txt so internal hosts get a clear 403, not a robots denial.
+  await assertPublicUrl(new URL(normalizedUrl));
+  await assertRobotsAllowed(normalizedUrl);
+  return fetchSource(normalizedUrl);
+}
+
+function withDocument<T>(
+  source: Extract<FetchedSource, { kind: "html" }>,
+  extract: (document: Document, finalUrl: string, encoding: string) => T
+): T {
+  const dom = new JSDOM(source.html, { url: source.finalUrl });
+
+  try {
+    return extract(dom.window.document, source.finalUrl, source.encoding);
+  } finally {
+    dom.window.close();
+  }
+}
+
+function outlineFromDocument(document: Document, finalUrl: string): StructuredOutline {
+  const canonical = collectCanonical(document) ?? finalUrl;
+  const description = getMetaContent(document, [
+    "meta[name='description']",
+    "meta[property='og:description']",
+  ]);
+  const title = sanitizeLine(document.title || "Untitled");
+
+  document
+    .querySelectorAll("script, style, nav, footer, header, aside, iframe, noscript, template")
+    .forEach((node) => node.remove());
+
+  const blocks: OutlineBlock[] = [];
+  // Nested matches are covered by the list or code block that contains them.
+  document.querySelectorAll("h1, h2, h3, h4, h5, h6, p, ul, ol, pre").forEach((node) => {
+    if (node.parentElement?.closest("ul, ol, pre")) {
+      return;
+    }
+    const tag = node.tagName.toLowerCase();
+    if (tag === "pre") {
+      const code = node.querySelector("code");
+      const language = code?.className.match(/(?:^|\s)language-(\S+)/)?.[1];
+      const text = (code ?? node).textContent ?? "";
+      if (text.trim()) {
+        blocks.push({ type: "code", language, code: text });
+      }
+    } else if (tag === "ul" || tag === "ol") {
+      const items = Array.from(node.children)
+        .filter((child) => child.tagName.toLowerCase() === "li")
+        .map((item) => sanitizeLine(listItemText(item)))
+        .filter(Boolean);
+      if (items.length) {
+        blocks.push({ type: "list", ordered: tag === "ol", items });
+      }
+    } else {
+      const text = sanitizeLine(node.textContent ?? "");
+      if (text) {
+        blocks.push(
+          tag === "p"
+            ? { type: "paragraph", text }
+            : { type: "heading", level: Number(tag[1]), text }
+        );
+      }
+    }
+  });
+
+  const links = dedupeLinks(
+    Array.from(document.querySelectorAll("a[href]")).flatMap((anchor) => {
+      const text = sanitizeLine(anchor.textContent ?? "");
+      try {
+        const href = new URL(anchor.getAttribute("href") ?? "", document.URL);
+        return text && ["http:", "https:"].includes(href.protocol)
+          ? [{ text, href: href.toString() }]
+          : [];
+      } catch {
+        return [];
+      }
+    })
+  );
+
+  return { title, url: finalUrl, canonical, description, blocks, links };
+}
+
+// The item's own text; nested lists are flattened into it with a separator.
+function listItemText(item: Element): string {
+  return Array.from(item.childNodes)
+    .map((child) =>
+      child.nodeType === 1 && ["ul", "ol"].includes((child as Element).tagName.toLowerCase())
+        ? Array.from((child as Element).children, listItemText).map((text) => ` / ${text}`).join("")
+        : child.textContent ?? ""
+    )
+    .join("");
+}
+
+function dedupeLinks(links: StructuredOutline["links"]): StructuredOutline["links"] {
+  const seen = new Set<string>();
+  return links.filter((link) => {
+    const key = `${link.text}\n${link.href}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 function normalizeUrl(input: string): string {
   try {
     const hasProtocol = /^https?:\/\//i.test(input);
@@ -131,41 +301,59 @@ function normalizeUrl(input: string): string {
   }
 }
 
-async function fetchHtml(targetUrl: string): Promise<{ html: string; finalUrl: string }> {
-  const response = await fetch(targetUrl, {
+async function assertRobotsAllowed(targetUrl: string): Promise<void> {
+  const url = new URL(targetUrl);
+  const robots = await fetchRobotsPolicy(url, { userAgent: CRAWLER_USER_AGENT });
+  if (!robots.allows(`${url.pathname}${url.search}`)) {
+    throw new ExtractionError("Source robots.txt disallows fetching this URL.", 403);
+  }
+}
+
+async function fetchSource(targetUrl: string): Promise<FetchedSource> {
+  const response = await safeFetch(targetUrl, {
     headers: {
-      "User-Agent": USER_AGENT,
-      Accept: "text/html,application/xhtml+xml",
+      "User-Agent": CRAWLER_USER_AGENT,
+      Accept:
+        "text/html,application/xhtml+xml,application/pdf;q=0.9,text/markdown;q=0.9," +
+        "application/json;q=0.8,text/plain;q=0.8",
     },
-    redirect: "follow",
     cache: "no-store",
-  }).catch(() => undefined);
-
-  if (!response) {
-    throw new ExtractionError("Unable to reach source URL.", 502);
-  }
+  });
 
   if (!response.ok) {
     const status = response.status >= 500 ? 502 : 400;
     throw new ExtractionError(`Source responded with status ${response.status}.`, status);
   }
 
+  const finalUrl = response.url || targetUrl;
   const contentType = response.headers.get("content-type") ?? "";
-  if (!contentType.includes("text/html")) {
-    throw new ExtractionError("Source did not return HTML content.", 400);
+  const isPdf = isPdfResponse(contentType, finalUrl);
+  const textKind = isPdf ? undefined : textSourceKind(contentType, finalUrl);
+  if (!isPdf && !textKind && !contentType.includes("text/html")) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new ExtractionError(
+      "Source did not return HTML, PDF, Markdown, plain text or JSON content.",
+      400
+    );
   }
 
-  const documentBuffer = await response.arrayBuffer();
+  const documentBuffer = await readBodyWithLimit(
+    response,
+    isPdf ? MAX_PDF_BYTES : MAX_DOCUMENT_BYTES
+  );
   if (documentBuffer.byteLength === 0) {
     throw new ExtractionError("Fetched document was empty.", 400);
   }
 
-  if (documentBuffer.byteLength > MAX_DOCUMENT_BYTES) {
-    throw new ExtractionError("HTML payload exceeds the 3 MB safety limit.", 400);
+  if (isPdf) {
+    return { kind: "pdf", data: documentBuffer, finalUrl };
   }
-
-  const html = new TextDecoder("utf-8", { fatal: false }).decode(documentBuffer);
-  return { html, finalUrl: response.url || targetUrl };
+  if (textKind) {
+    const { text, encoding } = decodeText(documentBuffer, contentType);
+    return { kind: textKind, text, finalUrl, encoding };
+  }
+  const { text: html, encoding } = decodeHtml(documentBuffer, contentType);
+  return { kind: "html", html, finalUrl, encoding };
 }
 
 function toMarkdown(fragmentHtml: string): string {
@@ -200,7 +388,7 @@ function collectCanonical(document: Document): string | undefined {
 
 function collectMetadata(
   document: Document,
-  opts: { canonical?: string; articleDetected: boolean }
+  opts: { canonical?: string; articleDetected: boolean; encoding?: string }
 ): ExtractedMetadata {
   const author = getMetaContent(document, [
     "meta[name='author']",
@@ -250,6 +438,7 @@ function collectMetadata(
     updated,
     language,
     contentType,
+    encoding: opts.encoding,
     primaryTopics,
     entities: entityCandidates,
   };
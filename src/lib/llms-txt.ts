@@ -0,0 +1,133 @@
+import type { PageEntry, PageType } from "@/lib/crawler";
+import { formatAsMdf, type ExtractedMetadata } from "@/lib/extractor";
+import {
+  getCrawledItemsBySession,
+  getCrawlSessionById,
+  getLatestCompletedSession,
+} from "@/lib/mongodb";
+
+// Section order and headings for the llms.txt link list.
+const SECTIONS: Array<[PageType, string]> = [
+  ["homepage", "Homepage"],
+  ["docs", "Docs"],
+  ["article", "Articles"],
+  ["product", "Products"],
+  ["category", "Categories"],
+];
+
+export type LlmsVariant = "llms" | "llms-full";
+
+export type LlmsPage = Pick<PageEntry, "url" | "ai_url" | "type"> & {
+  title?: string;
+  description?: string;
+  markdown?: string;
+  metadata?: ExtractedMetadata;
+};
+
+/**
+ * Builds an `llms.txt` index (https://llmstxt.org): the site title, a one-line
+ * summary and the crawled pages grouped by page type, linking to their AI
+ * mirror URLs.
+ */
+export function buildLlmsTxt(site: string, pages: LlmsPage[]): string {
+  const sections = SECTIONS.map(([type, heading]) => {
+    const links = pages
+      .filter((page) => page.type === type)
+      .map((page) => {
+        const title = escapeLinkText(page.title || page.url);
+        const description = page.description ? `: ${singleLine(page.description)}` : "";
+        return `- [${title}](${page.ai_url})${description}`;
+      });
+    return links.length ? [`## ${heading}`, "", ...links].join("\n") : undefined;
+  }).filter((section): section is string => Boolean(section));
+
+  return [
+    ...buildHeader(site, pages),
+    ...(sections.length ? sections : ["_No crawlable pages found._"]),
+  ]
+    .join("\n\n")
+    .concat("\n");
+}
+
+/**
+ * Builds `llms-full.txt`: the same header as `llms.txt` followed by the MDF
+ * body of every page that has extracted Markdown.
+ */
+export function buildLlmsFullTxt(site: string, pages: LlmsPage[]): string {
+  const bodies = pages
+    .filter((page) => page.markdown)
+    .map((page) =>
+      formatAsMdf({
+        title: page.title || page.url,
+        url: page.url,
+        canonical: page.url,
+        markdown: page.markdown!,
+        metadata: page.metadata ?? { primaryTopics: [], entities: [] },
+      }).trim()
+    );
+
+  return [
+    buildHeader(site, pages).join("\n\n"),
+    ...(bodies.length ? bodies : ["_No extracted content found._"]),
+  ]
+    .join("\n\n---\n\n")
+    .concat("\n");
+}
+
+/**
+ * Loads a completed crawl session and renders one of its llms.txt files, or
+ * returns undefined when the session does not exist or has not completed.
+ */
+export async function loadLlmsFile(
+  sessionId: string,
+  variant: LlmsVariant
+): Promise<string | undefined> {
+  const session = await getCrawlSessionById(sessionId);
+  if (!session || session.status !== "completed") {
+    return undefined;
+  }
+
+  const stored = await getCrawledItemsBySession(sessionId);
+  const pages = stored.map<LlmsPage>((page) => ({
+    url: page.url,
+    ai_url: page.ai_url,
+    type: page.type as PageType,
+    title: page.title,
+    description: page.description,
+    markdown: page.markdown,
+    metadata: page.metadata,
+  }));
+
+  return variant === "llms-full"
+    ? buildLlmsFullTxt(session.siteDomain, pages)
+    : buildLlmsTxt(session.siteDomain, pages);
+}
+
+/**
+ * Renders the llms.txt file for the most recent completed crawl of a site,
+ * which is what the AI mirror host serves.
+ */
+export async function loadLatestLlmsFile(
+  siteDomain: string,
+  variant: LlmsVariant
+): Promise<string | undefined> {
+  const session = await getLatestCompletedSession(siteDomain);
+  return session?.sessionId ? loadLlmsFile(session.sessionId, variant) : undefined;
+}
+
+function buildHeader(site: string, pages: LlmsPage[]): string[] {
+  const homepage = pages.find((page) => page.type === "homepage");
+  const title = singleLine(homepage?.title || site);
+  const summary = homepage?.description
+    ? singleLine(homepage.description)
+    : `AI-readable mirror of ${site} covering ${pages.length} page${pages.length === 1 ? "" : "s"}.`;
+  return [`# ${title}`, `> ${summary}`];
+}
+
+function singleLine(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function escapeLinkText(value: string): string {
+  return singleLine(value).replace(/([[\]])/g, "\\$1");
+}
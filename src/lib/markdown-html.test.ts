@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { renderMarkdownHtml } from "@/lib/markdown-html";
+
+describe("renderMarkdownHtml", () => {
+  it("renders Markdown", () => {
+    expect(renderMarkdownHtml("# Title\n\n- **one**")).toContain("<strong>one</strong>");
+  });
+
+  it("removes scripts, event handlers and javascript: links", () => {
+    const html = renderMarkdownHtml(
+      '<script>alert(1)</script>\n\n<img src="x.png" onerror="alert(2)">\n\n[link](javascript:alert(3))'
+    );
+    expect(html).not.toMatch(/<script|onerror|javascript:/i);
+    expect(html).toContain('<img src="x.png">');
+  });
+});
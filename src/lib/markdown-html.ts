@@ -0,0 +1,16 @@
+import createDOMPurify from "dompurify";
+import { JSDOM } from "jsdom";
+import { marked } from "marked";
+
+const purify = createDOMPurify(new JSDOM("").window);
+
+/**
+ * Renders extracted Markdown as HTML for the mirror page. Markdown may carry
+ * raw HTML from the source (Markdown sources pass it through untouched), so
+ * the output is sanitised: scripts, event handlers, `javascript:` URLs and
+ * similar are removed before it is embedded.
+ */
+export function renderMarkdownHtml(markdown: string): string {
+  const html = marked.parse(markdown, { gfm: true, breaks: false, async: false }) as string;
+  return purify.sanitize(html);
+}
@@ -0,0 +1,99 @@
+import matter from "gray-matter";
+import { describe, expect, it } from "vitest";
+import type { ExtractionResult } from "@/lib/extractor";
+import { parseMdf, serializeMdf, serializeMdfFrontmatter, validateMdf } from "@/lib/mdf";
+
+const result: ExtractionResult = {
+  title: "Quarterly results",
+  url: "https://example.com/news/q3?ref=home",
+  canonical: "https://example.com/news/q3",
+  markdown: "Intro paragraph.\n\n## Metadata\n\nA body heading that looks like a section.",
+  metadata: {
+    canonical: "https://example.com/news/q3",
+    author: "Jane Doe",
+    published: "2024-10-01T09:00:00.000Z",
+    updated: "2024-10-02T10:30:00.000Z",
+    language: "en-US",
+    contentType: "article",
+    encoding: "windows-1252",
+    primaryTopics: ["earnings", "Acme, Inc.", 'the "big" deal', ""],
+    entities: ["Acme, Inc.", "Jane Doe"],
+  },
+};
+
+describe("MDF round trip", () => {
+  it("parses every serialized field back unchanged", () => {
+    expect(parseMdf(serializeMdf(result))).toEqual(result);
+  });
+
+  it("round-trips a result with empty optional fields", () => {
+    const sparse: ExtractionResult = {
+      title: "Untitled",
+      url: "https://example.com/",
+      canonical: "https://example.com/",
+      markdown: "Body.",
+      metadata: { canonical: "https://example.com/", primaryTopics: [], entities: [] },
+    };
+    expect(parseMdf(serializeMdf(sparse))).toEqual(sparse);
+  });
+
+  it("falls back to a title from the URL when the title is empty", () => {
+    for (const title of ["", "  \n "]) {
+      const untitled = { ...result, title, url: "https://example.com/reports/q3-results.html" };
+      expect(parseMdf(serializeMdf(untitled))).toEqual({ ...untitled, title: "q3 results" });
+      const { data } = matter(serializeMdfFrontmatter(untitled), {});
+      expect(data.title).toBe("q3 results");
+    }
+    const root = { ...result, title: "", url: "https://example.com/" };
+    expect(parseMdf(serializeMdf(root)).title).toBe("Untitled");
+  });
+
+  it("quotes list items that contain commas or quotes", () => {
+    expect(serializeMdf(result)).toContain(
+      '- Primary Topics: earnings, "Acme, Inc.", "the ""big"" deal", ""'
+    );
+  });
+
+  it("keeps the frontmatter lists and encoding intact", () => {
+    const { data } = matter(serializeMdfFrontmatter(result), {});
+    expect(data.primary_topics).toEqual(result.metadata.primaryTopics);
+    expect(data.entities).toEqual(result.metadata.entities);
+    expect(data.encoding).toBe("windows-1252");
+  });
+});
+
+describe("parseMdf", () => {
+  it("reads documents written before the Encoding field", () => {
+    const legacy = serializeMdf(result).replace("- Encoding: windows-1252\n", "");
+    const parsed = parseMdf(legacy);
+    expect(parsed.metadata.encoding).toBeUndefined();
+    expect(parsed.metadata.author).toBe("Jane Doe");
+  });
+
+  it("splits unquoted lists on commas", () => {
+    const legacy = serializeMdf({
+      ...result,
+      metadata: { ...result.metadata, primaryTopics: [], entities: [] },
+    }).replace("- Primary Topics: ", "- Primary Topics: a, b ,, c");
+    expect(parseMdf(legacy).metadata.primaryTopics).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("validateMdf", () => {
+  it("reports problems with their line numbers", () => {
+    const text = serializeMdf(result)
+      .replace("<!-- mdf_version: 1 -->", "<!-- mdf_version: 2 -->")
+      .replace("https://example.com/news/q3?ref=home", "not a url");
+    const validation = validateMdf(text);
+    expect(validation.valid).toBe(false);
+    expect(validation.version).toBe(2);
+    expect(validation.errors).toEqual([
+      { line: 1, message: expect.stringContaining('Unsupported mdf_version "2"') },
+      { line: 5, message: "`## URL` must be an absolute http(s) URL." },
+    ]);
+  });
+
+  it("accepts serializer output", () => {
+    expect(validateMdf(serializeMdf(result))).toEqual({ valid: true, version: 1, errors: [] });
+  });
+});
@@ -0,0 +1,424 @@
+import matter from "gray-matter";
+import { titleFromUrl } from "@/lib/document-text";
+import type { ExtractedMetadata, ExtractionResult } from "@/lib/extractor";
+
+/**
+ * MDF v1
+ *
+ * ```
+ * <!-- mdf_version: 1 -->
+ * # <title>
+ *
+ * ## URL
+ * <absolute http(s) url>
+ *
+ * ## Canonical
+ * <absolute http(s) url>
+ *
+ * ## Content
+ * <markdown body, may contain its own headings>
+ *
+ * ## Metadata
+ * - Author: <text>
+ * - Published Date: <text>
+ * - Updated Date: <text>
+ * - Language: <text>
+ * - Encoding: <text>
+ *
+ * ## Schema Hints
+ * - Content Type: <text>
+ * - Primary Topics: <list>
+ * - Entities Mentioned: <list>
+ * ```
+ *
+ * Sections appear once and in this order. Field values may be empty, and
+ * `Encoding` may be left out. The body ends at the last `## Metadata`
+ * heading, so it can contain any Markdown. Lists are comma-separated; an item
+ * that is empty or contains a comma or double quote is wrapped in double
+ * quotes, with inner quotes doubled (`"Acme, Inc.", "Say ""hi"""`).
+ */
+export const MDF_VERSION = 1;
+
+const VERSION_MARKER = /^<!--\s*mdf_version:\s*(\S+)\s*-->$/;
+
+const METADATA_FIELDS = ["Author", "Published Date", "Updated Date", "Language", "Encoding"] as const;
+// Added after the first v1 documents were written, so it may be absent.
+const OPTIONAL_FIELDS: ReadonlySet<string> = new Set(["Encoding"]);
+const SCHEMA_HINT_FIELDS = ["Content Type", "Primary Topics", "Entities Mentioned"] as const;
+
+// `mdf` is the section layout above; `frontmatter` carries the same fields as YAML.
+export type MdfFormat = "mdf" | "frontmatter";
+
+export type MdfIssue = {
+  line: number;
+  message: string;
+};
+
+export type MdfValidation = {
+  valid: boolean;
+  version?: number;
+  errors: MdfIssue[];
+};
+
+export class MdfParseError extends Error {
+  errors: MdfIssue[];
+
+  constructor(errors: MdfIssue[]) {
+    super(
+      errors.map((issue) => `Line ${issue.line}: ${issue.message}`).join("\n") ||
+        "Invalid MDF document."
+    );
+    this.name = "MdfParseError";
+    this.errors = errors;
+  }
+}
+
+export function serializeMdf(result: ExtractionResult): string {
+  const lines = [
+    `<!-- mdf_version: ${MDF_VERSION} -->`,
+    `# ${documentTitle(result)}`,
+    "",
+    "## URL",
+    result.url,
+    "",
+    "## Canonical",
+    result.canonical,
+    "",
+    "## Content",
+    result.markdown,
+    "",
+    "## Metadata",
+    `- Author: ${singleLine(result.metadata.author)}`,
+    `- Published Date: ${singleLine(result.metadata.published)}`,
+    `- Updated Date: ${singleLine(result.metadata.updated)}`,
+    `- Language: ${singleLine(result.metadata.language)}`,
+    `- Encoding: ${singleLine(result.metadata.encoding)}`,
+    "",
+    "## Schema Hints",
+    `- Content Type: ${singleLine(result.metadata.contentType)}`,
+    `- Primary Topics: ${formatList(result.metadata.primaryTopics)}`,
+    `- Entities Mentioned: ${formatList(result.metadata.entities)}`,
+  ];
+
+  return lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .concat("\n");
+}
+
+/**
+ * Serializes the frontmatter variant: the fields of the `## URL` through
+ * `## Schema Hints` sections as typed YAML, followed by the title and body.
+ */
+export function serializeMdfFrontmatter(result: ExtractionResult): string {
+  const data: Record<string, string | number | string[]> = {
+    mdf_version: MDF_VERSION,
+    title: documentTitle(result),
+    url: result.url,
+    canonical: result.canonical,
+  };
+  const fields: Array<[string, string | undefined]> = [
+    ["author", result.metadata.author],
+    ["published", result.metadata.published],
+    ["updated", result.metadata.updated],
+    ["language", result.metadata.language],
+    ["encoding", result.metadata.encoding],
+    ["content_type", result.metadata.contentType],
+  ];
+  // YAML cannot represent undefined, so empty fields are left out.
+  for (const [key, value] of fields) {
+    if (singleLine(value)) {
+      data[key] = singleLine(value);
+    }
+  }
+  data.primary_topics = result.metadata.primaryTopics.map(singleLine);
+  data.entities = result.metadata.entities.map(singleLine);
+
+  return matter
+    .stringify(`# ${documentTitle(result)}\n\n${result.markdown.trim()}\n`, data)
+    .replace(/\n{3,}/g, "\n\n");
+}
+
+/**
+ * Parses MDF v1 text back into an extraction result. Throws MdfParseError
+ * listing every problem `validateMdf` reports.
+ */
+export function parseMdf(text: string): ExtractionResult {
+  const { result, errors } = readMdf(text);
+  if (!result || errors.length) {
+    throw new MdfParseError(errors);
+  }
+  return result;
+}
+
+/**
+ * Checks MDF text against the v1 layout. Every issue carries the 1-based line
+ * it was found on.
+ */
+export function validateMdf(text: string): MdfValidation {
+  const { version, errors } = readMdf(text);
+  return { valid: errors.length === 0, version, errors };
+}
+
+/**
+ * Whether the text declares itself as MDF through the version marker.
+ */
+export function hasMdfMarker(text: string): boolean {
+  return VERSION_MARKER.test(text.trimStart().split("\n", 1)[0].trim());
+}
+
+function readMdf(text: string): {
+  result?: ExtractionResult;
+  version?: number;
+  errors: MdfIssue[];
+} {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const errors: MdfIssue[] = [];
+  const fail = (line: number, message: string) =>
+    errors.push({ line: Math.min(line, lines.length), message });
+
+  // Leading blank lines are tolerated; the marker must come first after them.
+  let index = nextContentLine(lines, 0);
+  const marker = lines[index]?.trim().match(VERSION_MARKER);
+  let version: number | undefined;
+  if (!marker) {
+    fail(index + 1, "Expected the `<!-- mdf_version: 1 -->` marker.");
+  } else {
+    version = Number(marker[1]);
+    if (version !== MDF_VERSION) {
+      fail(index + 1, `Unsupported mdf_version "${marker[1]}"; this parser reads version ${MDF_VERSION}.`);
+    }
+    index = nextContentLine(lines, index + 1);
+  }
+
+  const titleMatch = lines[index]?.match(/^#\s+(.+)$/);
+  if (!titleMatch) {
+    fail(index + 1, "Expected the `# <title>` heading.");
+    return { version, errors };
+  }
+  const title = titleMatch[1].trim();
+
+  // The trailer is located from the end so the body may contain any headings.
+  const schemaLine = lastIndexOf(lines, "## Schema Hints");
+  const metadataLine = lastIndexOf(lines, "## Metadata", schemaLine === -1 ? lines.length : schemaLine);
+  const urlLine = indexOf(lines, "## URL", index + 1);
+  const canonicalLine = indexOf(lines, "## Canonical", urlLine + 1);
+  const contentLine = indexOf(lines, "## Content", canonicalLine + 1);
+
+  const required: Array<[number, string]> = [
+    [urlLine, "## URL"],
+    [canonicalLine, "## Canonical"],
+    [contentLine, "## Content"],
+    [metadataLine, "## Metadata"],
+    [schemaLine, "## Schema Hints"],
+  ];
+  const missing = required.filter(([line]) => line === -1);
+  for (const [, heading] of missing) {
+    fail(lines.length, `Missing the \`${heading}\` section.`);
+  }
+  if (missing.length) {
+    return { version, errors };
+  }
+  if (contentLine > metadataLine) {
+    fail(metadataLine + 1, "`## Metadata` must follow `## Content`.");
+    return { version, errors };
+  }
+
+  expectBlank(lines, index + 1, urlLine, fail);
+  const url = readUrl(lines, urlLine, canonicalLine, "URL", fail);
+  const canonical = readUrl(lines, canonicalLine, contentLine, "Canonical", fail);
+
+  const markdown = lines.slice(contentLine + 1, metadataLine).join("\n").trim();
+  if (!markdown) {
+    fail(contentLine + 1, "The `## Content` section is empty.");
+  }
+
+  const metadataValues = readFields(lines, metadataLine, schemaLine, METADATA_FIELDS, fail);
+  const hintValues = readFields(lines, schemaLine, lines.length, SCHEMA_HINT_FIELDS, fail);
+
+  const metadata: ExtractedMetadata = {
+    canonical,
+    author: metadataValues.Author,
+    published: metadataValues["Published Date"],
+    updated: metadataValues["Updated Date"],
+    language: metadataValues.Language,
+    encoding: metadataValues.Encoding,
+    contentType: hintValues["Content Type"],
+    primaryTopics: splitList(hintValues["Primary Topics"]),
+    entities: splitList(hintValues["Entities Mentioned"]),
+  };
+
+  return {
+    result: { title, url, canonical, markdown, metadata },
+    version,
+    errors,
+  };
+}
+
+// A section holding exactly one absolute http(s) URL.
+function readUrl(
+  lines: string[],
+  headingLine: number,
+  endLine: number,
+  section: string,
+  fail: (line: number, message: string) => void
+): string {
+  const valueLine = nextContentLine(lines, headingLine + 1, endLine);
+  const value = lines[valueLine]?.trim() ?? "";
+  if (valueLine >= endLine || !value) {
+    fail(headingLine + 1, `The \`## ${section}\` section is empty.`);
+    return "";
+  }
+  try {
+    if (!["http:", "https:"].includes(new URL(value).protocol)) {
+      throw new Error();
+    }
+  } catch {
+    fail(valueLine + 1, `\`## ${section}\` must be an absolute http(s) URL.`);
+  }
+  expectBlank(lines, valueLine + 1, endLine, fail);
+  return value;
+}
+
+// `- Name: value` lines, exactly the expected names in order.
+function readFields<Name extends string>(
+  lines: string[],
+  headingLine: number,
+  endLine: number,
+  names: readonly Name[],
+  fail: (line: number, message: string) => void
+): Partial<Record<Name, string>> {
+  const values: Partial<Record<Name, string>> = {};
+  let expected = 0;
+  for (let index = headingLine + 1; index < endLine; index += 1) {
+    const line = lines[index].trim();
+    if (!line) {
+      continue;
+    }
+    const name = names[expected];
+    const match = line.match(/^-\s+([^:]+):(.*)$/);
+    if (!name) {
+      fail(index + 1, `Unexpected content after \`${lines[headingLine]}\`.`);
+      continue;
+    }
+    if (!match || match[1].trim() !== name) {
+      fail(index + 1, `Expected \`- ${name}:\`.`);
+      expected += 1;
+      continue;
+    }
+    const value = match[2].trim();
+    if (value) {
+      values[name] = value;
+    }
+    expected += 1;
+  }
+  for (const name of names.slice(expected)) {
+    if (!OPTIONAL_FIELDS.has(name)) {
+      fail(endLine, `Missing \`- ${name}:\` in \`${lines[headingLine]}\`.`);
+    }
+  }
+  return values;
+}
+
+function expectBlank(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  fail: (line: number, message: string) => void
+) {
+  const extra = nextContentLine(lines, startLine, endLine);
+  if (extra < endLine) {
+    fail(extra + 1, "Unexpected content before the next section.");
+  }
+}
+
+function nextContentLine(lines: string[], start: number, end = lines.length): number {
+  let index = start;
+  while (index < end && !lines[index].trim()) {
+    index += 1;
+  }
+  return index;
+}
+
+function indexOf(lines: string[], heading: string, start: number): number {
+  if (start <= 0) {
+    return -1;
+  }
+  return lines.findIndex((line, index) => index >= start && line.trim() === heading);
+}
+
+function lastIndexOf(lines: string[], heading: string, end = lines.length): number {
+  for (let index = end - 1; index >= 0; index -= 1) {
+    if (lines[index].trim() === heading) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function formatList(values: string[]): string {
+  return values
+    .map(singleLine)
+    .map((value) => (!value || /[,"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value))
+    .join(", ");
+}
+
+// Reads the list format written by formatList. Unquoted items are trimmed;
+// an unterminated quote runs to the end of the line.
+function splitList(value: string | undefined): string[] {
+  const text = value ?? "";
+  const items: string[] = [];
+  let index = 0;
+  while (text.slice(index).trim()) {
+    while (text[index] === " ") {
+      index += 1;
+    }
+    let item = "";
+    if (text[index] === '"') {
+      index += 1;
+      while (index < text.length) {
+        if (text[index] === '"' && text[index + 1] === '"') {
+          item += '"';
+          index += 2;
+        } else if (text[index] === '"') {
+          index += 1;
+          break;
+        } else {
+          item += text[index];
+          index += 1;
+        }
+      }
+      // Anything between the closing quote and the next comma is ignored.
+      const comma = text.indexOf(",", index);
+      index = comma === -1 ? text.length : comma + 1;
+      items.push(item);
+    } else {
+      const comma = text.indexOf(",", index);
+      const end = comma === -1 ? text.length : comma;
+      item = text.slice(index, end).trim();
+      index = end + 1;
+      if (item) {
+        items.push(item);
+      }
+    }
+  }
+  return items;
+}
+
+// `# <title>` needs text, so an empty title falls back to one from the URL.
+function documentTitle(result: ExtractionResult): string {
+  const title = singleLine(result.title);
+  if (title) {
+    return title;
+  }
+  try {
+    return singleLine(titleFromUrl(result.url)) || "Untitled";
+  } catch {
+    return "Untitled";
+  }
+}
+
+function singleLine(value: string | undefined): string {
+  return (value ?? "").replace(/\s+/g, " ").trim();
+}
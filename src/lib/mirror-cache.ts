@@ -0,0 +1,150 @@
+import { createHash } from "crypto";
+import type { ExtractionResult } from "@/lib/extractor";
+import type { MirrorFormat } from "@/lib/mirror-host";
+import { getAIMirrorByUrl, getLatestCrawledPageByUrl } from "@/lib/mongodb";
+
+// How long a stored extraction is served as-is, and how much longer it may be
+// served while a background refresh runs. Both are configurable in seconds.
+const MIRROR_CACHE_TTL_MS =
+  readSeconds(process.env.MIRROR_CACHE_TTL_SECONDS, 60 * 60) * 1000;
+const MIRROR_CACHE_SWR_MS =
+  readSeconds(process.env.MIRROR_CACHE_SWR_SECONDS, 24 * 60 * 60) * 1000;
+
+export type MirrorCacheState = "fresh" | "stale" | "live";
+
+export type CachedMirror = {
+  result: ExtractionResult;
+  fetchedAt: Date;
+  contentHash: string;
+  state: MirrorCacheState;
+};
+
+export type StoredMirror = Omit<CachedMirror, "state">;
+
+/**
+ * Validators for the copy `getMirrorExtraction` would serve from storage, or
+ * undefined when the next request has to go to the origin anyway.
+ */
+export async function getMirrorValidators(
+  source: string,
+  format: MirrorFormat
+): Promise<{ etag: string; lastModified: Date } | undefined> {
+  const stored = await loadStoredMirror(source);
+  if (!stored || !mirrorCacheState(stored.fetchedAt)) {
+    return undefined;
+  }
+  return {
+    etag: mirrorEtag(stored.contentHash, format),
+    lastModified: stored.fetchedAt,
+  };
+}
+
+// One ETag per representation, since every format is served from the same URL.
+export function mirrorEtag(contentHash: string, format: MirrorFormat): string {
+  return `W/"${contentHash.slice(0, 32)}-${format}"`;
+}
+
+/**
+ * Validator and freshness headers for a mirror response.
+ */
+export function mirrorCacheHeaders(etag: string, lastModified: Date): Record<string, string> {
+  return {
+    ETag: etag,
+    "Last-Modified": lastModified.toUTCString(),
+    "Cache-Control": [
+      "public",
+      `max-age=${Math.floor(MIRROR_CACHE_TTL_MS / 1000)}`,
+      `stale-while-revalidate=${Math.floor(MIRROR_CACHE_SWR_MS / 1000)}`,
+    ].join(", "),
+  };
+}
+
+/**
+ * Evaluates If-None-Match (which takes precedence) and If-Modified-Since.
+ */
+export function isNotModified(headers: Headers, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = headers.get("if-none-match");
+  if (ifNoneMatch) {
+    const weak = (value: string) => value.trim().replace(/^W\//, "");
+    return ifNoneMatch
+      .split(",")
+      .some((value) => value.trim() === "*" || weak(value) === weak(etag));
+  }
+  const ifModifiedSince = Date.parse(headers.get("if-modified-since") ?? "");
+  // HTTP dates have second precision.
+  return (
+    !Number.isNaN(ifModifiedSince) &&
+    Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince
+  );
+}
+
+// Undefined once a copy is too old to serve even while revalidating.
+export function mirrorCacheState(fetchedAt: Date): MirrorCacheState | undefined {
+  const age = Date.now() - fetchedAt.getTime();
+  if (age < MIRROR_CACHE_TTL_MS) {
+    return "fresh";
+  }
+  return age < MIRROR_CACHE_TTL_MS + MIRROR_CACHE_SWR_MS ? "stale" : undefined;
+}
+
+// Picks the newer of the stored mirror extraction and the latest crawl of the URL.
+export async function loadStoredMirror(source: string): Promise<StoredMirror | undefined> {
+  try {
+    const [mirror, crawled] = await Promise.all([
+      getAIMirrorByUrl(source),
+      getLatestCrawledPageByUrl(source),
+    ]);
+
+    const candidates: StoredMirror[] = [];
+    const mirrorFetchedAt = mirror?.updatedAt ?? mirror?.createdAt;
+    if (mirror?.markdown && mirrorFetchedAt) {
+      candidates.push({
+        result: {
+          title: mirror.title || source,
+          url: source,
+          canonical: mirror.canonical || source,
+          markdown: mirror.markdown,
+          metadata: {
+            author: mirror.metadata?.author,
+            published: mirror.metadata?.published,
+            updated: mirror.metadata?.updated,
+            language: mirror.metadata?.language ?? mirror.language,
+            contentType: mirror.metadata?.contentType,
+            encoding: mirror.metadata?.encoding,
+            primaryTopics: mirror.metadata?.primaryTopics ?? mirror.key_topics,
+            entities: mirror.metadata?.entities ?? [],
+          },
+        },
+        fetchedAt: mirrorFetchedAt,
+        contentHash: mirror.contentHash || hashMirrorContent(mirror.markdown),
+      });
+    }
+    if (crawled?.markdown) {
+      candidates.push({
+        result: {
+          title: crawled.title || source,
+          url: source,
+          canonical: crawled.url,
+          markdown: crawled.markdown,
+          metadata: crawled.metadata ?? { primaryTopics: [], entities: [] },
+        },
+        fetchedAt: crawled.createdAt,
+        contentHash: crawled.contentHash || hashMirrorContent(crawled.markdown),
+      });
+    }
+
+    return candidates.sort((a, b) => b.fetchedAt.getTime() - a.fetchedAt.getTime())[0];
+  } catch (dbError) {
+    console.error("Failed to load cached AI mirror from MongoDB:", dbError);
+    return undefined;
+  }
+}
+
+export function hashMirrorContent(markdown: string): string {
+  return createHash("sha256").update(markdown).digest("hex");
+}
+
+function readSeconds(value: string | undefined, fallback: number): number {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds : fallback;
+}
@@ -0,0 +1,110 @@
+import { buildAiMirrorJson } from "@/lib/ai-mirror";
+import { isRegisteredSite } from "@/lib/bot-policy";
+import { normalizeUrl } from "@/lib/crawler";
+import { ExtractionError } from "@/lib/extraction-error";
+import { extractStructuredContent } from "@/lib/extractor";
+import {
+  hashMirrorContent,
+  loadStoredMirror,
+  mirrorCacheState,
+  type CachedMirror,
+  type StoredMirror,
+} from "@/lib/mirror-cache";
+import { isUrlInCompletedCrawl, upsertAIMirrorData } from "@/lib/mongodb";
+
+// Background refreshes in flight, shared across route bundles like the job registry.
+const globalForMirrorCache = globalThis as typeof globalThis & {
+  mirrorRefreshes?: Map<string, Promise<StoredMirror>>;
+};
+const refreshes =
+  globalForMirrorCache.mirrorRefreshes ?? new Map<string, Promise<StoredMirror>>();
+globalForMirrorCache.mirrorRefreshes = refreshes;
+
+/**
+ * Returns the extraction for a mirrored page. Stored AI mirror data or crawl
+ * Markdown is served while younger than the TTL; within the
+ * stale-while-revalidate window it is still served but refreshed in the
+ * background; anything older (or missing) is fetched from the origin. Only
+ * pages of a completed crawl or a registered site are mirrored; anything else
+ * throws ExtractionError (404) so arbitrary URLs are never fetched or stored.
+ */
+export async function getMirrorExtraction(source: string): Promise<CachedMirror> {
+  if (!(await isMirrorableSource(source))) {
+    throw new ExtractionError("This page is not part of any completed crawl or registered site.", 404);
+  }
+
+  const stored = await loadStoredMirror(source);
+  const state = stored ? mirrorCacheState(stored.fetchedAt) : undefined;
+  if (stored && state === "fresh") {
+    return { ...stored, state };
+  }
+  if (stored && state === "stale") {
+    void refreshMirror(source).catch((error) => {
+      console.error(`Failed to revalidate AI mirror for ${source}:`, error);
+    });
+    return { ...stored, state };
+  }
+  return { ...(await refreshMirror(source)), state: "live" };
+}
+
+async function isMirrorableSource(source: string): Promise<boolean> {
+  let normalized: string;
+  try {
+    normalized = normalizeUrl(source);
+  } catch {
+    return false;
+  }
+  if (isRegisteredSite(new URL(normalized).hostname)) {
+    return true;
+  }
+  try {
+    return await isUrlInCompletedCrawl(Array.from(new Set([source, normalized])));
+  } catch (dbError) {
+    console.error("Failed to look up AI mirror source in MongoDB:", dbError);
+    return false;
+  }
+}
+
+function refreshMirror(source: string): Promise<StoredMirror> {
+  const pending = refreshes.get(source);
+  if (pending) {
+    return pending;
+  }
+  const refresh = fetchAndStore(source).finally(() => refreshes.delete(source));
+  refreshes.set(source, refresh);
+  return refresh;
+}
+
+async function fetchAndStore(source: string): Promise<StoredMirror> {
+  const result = await extractStructuredContent(source);
+  const fetched: StoredMirror = {
+    result,
+    fetchedAt: new Date(),
+    contentHash: hashMirrorContent(result.markdown),
+  };
+
+  try {
+    const document = buildAiMirrorJson(result, source);
+    await upsertAIMirrorData(source, {
+      mirror_url: document.mirror_url,
+      page_type: document.page_type,
+      intent: document.intent,
+      language: document.language,
+      summary: document.summary,
+      key_topics: document.key_topics,
+      entities: document.entities,
+      structured_content: document.structured_content,
+      markdown: result.markdown,
+      metadata: result.metadata,
+      title: result.title,
+      canonical: result.canonical,
+      contentHash: fetched.contentHash,
+      updatedAt: fetched.fetchedAt,
+    });
+  } catch (dbError) {
+    console.error("Failed to save AI mirror cache to MongoDB:", dbError);
+    // The fresh extraction is still served even if the DB save fails
+  }
+
+  return fetched;
+}
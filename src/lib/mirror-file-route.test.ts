@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import { mirrorFileHandler } from "@/lib/mirror-file-route";
+
+const request = (url: string, host: string) => new Request(url, { headers: { host } });
+
+describe("mirrorFileHandler", () => {
+  const load = vi.fn(async (site: string) =>
+    site === "example.com" ? `file for ${site}` : undefined
+  );
+  const GET = mirrorFileHandler({ name: "llms.txt", contentType: "text/plain", load });
+
+  it("serves the file for the mirror host's site", async () => {
+    const response = await GET(request("https://ai.example.com/llms.txt", "ai.example.com"));
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/plain; charset=utf-8");
+    expect(await response.text()).toBe("file for example.com");
+  });
+
+  it("reads ?site= on other hosts", async () => {
+    const response = await GET(
+      request("https://app.test/llms.txt?site=www.example.com", "app.test")
+    );
+    expect(await response.text()).toBe("file for example.com");
+  });
+
+  it("answers 404 without a completed crawl and 400 without a site", async () => {
+    expect((await GET(request("https://ai.other.com/llms.txt", "ai.other.com"))).status).toBe(404);
+    expect((await GET(request("https://app.test/llms.txt", "app.test"))).status).toBe(400);
+  });
+
+  it("serves the fallback on the app's own host", async () => {
+    const withFallback = mirrorFileHandler({
+      name: "robots.txt",
+      contentType: "text/plain",
+      load,
+      fallback: () => "User-agent: *\nAllow: /\n",
+    });
+    const response = await withFallback(request("https://app.test/robots.txt", "app.test"));
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("User-agent: *\nAllow: /\n");
+  });
+
+  it("answers 500 when loading fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const failing = mirrorFileHandler({
+      name: "sitemap.xml",
+      contentType: "application/xml",
+      load: async () => {
+        throw new Error("database down");
+      },
+    });
+    const response = await failing(request("https://ai.example.com/sitemap.xml", "ai.example.com"));
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Failed to serve sitemap.xml" });
+  });
+});
@@ -0,0 +1,47 @@
+import { resolveMirrorSite } from "@/lib/mirror-host";
+
+type MirrorFileRoute = {
+  // File name for error messages and logs, e.g. "llms.txt".
+  name: string;
+  contentType: string;
+  // The file for a site, or undefined when the site has no completed crawl.
+  load: (site: string) => Promise<string | undefined>;
+  // The file for the app's own host; without it such requests get a 400.
+  fallback?: (request: Request) => string;
+};
+
+/**
+ * Builds the GET handler for a file the AI mirror host serves per site
+ * (`/llms.txt`, `/robots.txt`, ...). The site comes from the `ai.<domain>`
+ * host or `?site=`; sites without a completed crawl get a 404.
+ */
+export function mirrorFileHandler(route: MirrorFileRoute) {
+  const headers = { "Content-Type": `${route.contentType}; charset=utf-8` };
+
+  return async function GET(request: Request): Promise<Response> {
+    const site = resolveMirrorSite(request);
+    if (!site) {
+      if (route.fallback) {
+        return new Response(route.fallback(request), { status: 200, headers });
+      }
+      return Response.json(
+        { error: "Request this file from an ai.<domain> host or pass ?site=." },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const content = await route.load(site);
+      if (content === undefined) {
+        return Response.json(
+          { error: "No completed crawl found for this site." },
+          { status: 404 }
+        );
+      }
+      return new Response(content, { status: 200, headers });
+    } catch (error) {
+      console.error(`Failed to serve ${route.name}:`, error);
+      return Response.json({ error: `Failed to serve ${route.name}` }, { status: 500 });
+    }
+  };
+}
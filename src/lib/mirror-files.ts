@@ -0,0 +1,62 @@
+import { getMirrorRobotsPolicy } from "@/lib/bot-policy";
+import { loadStoredCrawlArtifacts } from "@/lib/crawl-jobs";
+import { buildSitemapXml, type PageEntry } from "@/lib/crawler";
+import { buildMirrorPageUrl } from "@/lib/mirror-host";
+import { getLatestCompletedSession } from "@/lib/mongodb";
+
+/**
+ * Builds the mirror host's `robots.txt` from the site's bot policy: a group
+ * per admitted agent, `Disallow: /` for blocked ones, a catch-all group and
+ * the mirror sitemap.
+ */
+export function buildMirrorRobotsTxt(site: string): string {
+  const policy = getMirrorRobotsPolicy(site);
+  const groups = [
+    ...policy.allow.map((agent) => `User-agent: ${agent}\nAllow: /`),
+    ...policy.disallow.map((agent) => `User-agent: ${agent}\nDisallow: /`),
+    `User-agent: *\n${policy.disallowOthers ? "Disallow: /" : "Allow: /"}`,
+  ];
+
+  return [...groups, `Sitemap: ${buildMirrorPageUrl(site, "/sitemap.xml")}`]
+    .join("\n\n")
+    .concat("\n");
+}
+
+/**
+ * `robots.txt` for the app's own host, which is not a mirror: crawling is
+ * allowed everywhere.
+ */
+export function buildMainRobotsTxt(): string {
+  return "User-agent: *\nAllow: /\n";
+}
+
+/**
+ * `sitemap.xml` for the app's own host: a valid, empty `<urlset>`, since its
+ * pages are the dashboard and login screens, not content to index.
+ */
+export function buildMainSitemapXml(host: string): string {
+  return buildSitemapXml(host, [], new Date().toISOString());
+}
+
+/**
+ * Builds the mirror host's `sitemap.xml` from the latest completed crawl of
+ * the site, listing AI mirror URLs. Returns undefined when there is no crawl.
+ */
+export async function loadMirrorSitemapXml(site: string): Promise<string | undefined> {
+  const session = await getLatestCompletedSession(site);
+  const artifacts = session?.sessionId
+    ? await loadStoredCrawlArtifacts(session.sessionId)
+    : undefined;
+  if (!artifacts) {
+    return undefined;
+  }
+
+  // hreflang alternates point at the origin site, so they are left out.
+  const pages = artifacts.pages.map<PageEntry>((page) => ({
+    ...page,
+    url: page.ai_url,
+    alternates: undefined,
+  }));
+
+  return buildSitemapXml(site, pages, artifacts.generated_at, artifacts.sitemapOptions);
+}
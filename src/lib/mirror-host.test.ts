@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mirrorSiteFromHost, requestHost } from "@/lib/mirror-host";
+
+describe("requestHost", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const headers = new Headers({
+    host: "app.example.com",
+    "x-forwarded-host": "ai.spoofed.com, ai.example.com",
+  });
+
+  it("ignores X-Forwarded-Host by default", () => {
+    expect(requestHost(headers)).toBe("app.example.com");
+  });
+
+  it("uses the right-most X-Forwarded-Host behind a trusted proxy", () => {
+    vi.stubEnv("TRUST_FORWARDED_HOST", "true");
+    expect(requestHost(headers)).toBe("ai.example.com");
+    expect(requestHost(new Headers({ host: "app.example.com" }))).toBe("app.example.com");
+  });
+});
+
+describe("mirrorSiteFromHost", () => {
+  it("strips the ai. prefix and port", () => {
+    expect(mirrorSiteFromHost("AI.Example.com:3000")).toBe("example.com");
+    expect(mirrorSiteFromHost("example.com")).toBeUndefined();
+    expect(mirrorSiteFromHost("ai.")).toBeUndefined();
+  });
+});
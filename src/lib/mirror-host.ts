@@ -0,0 +1,172 @@
+// AI mirror URLs are advertised as https://ai.<domain>/<path>.
+const MIRROR_HOST_PREFIX = "ai.";
+
+// Paths the mirror host serves from their own routes instead of rendering a page mirror.
+const MIRROR_HOST_FILES = new Set(["/llms.txt", "/llms-full.txt", "/robots.txt", "/sitemap.xml"]);
+
+// Internal route that renders host-routed mirror pages: /ai/<domain>/<path>.
+const MIRROR_ROUTE_PREFIX = "/ai";
+// Route handler serving the non-HTML representations: /api/ai-mirror/<format>.
+const MIRROR_FORMAT_ROUTE_PREFIX = "/api/ai-mirror";
+
+export type MirrorFormat = "html" | "md" | "json" | "jsonld";
+
+const ACCEPT_FORMATS: Record<string, MirrorFormat> = {
+  "text/markdown": "md",
+  "text/x-markdown": "md",
+  "application/json": "json",
+  "application/ld+json": "jsonld",
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "text/*": "html",
+  "*/*": "html",
+};
+
+const SUFFIX_FORMATS: Record<string, MirrorFormat> = {
+  ".md": "md",
+  ".json": "json",
+};
+
+/**
+ * The host a request was sent to. X-Forwarded-Host can be set by any client,
+ * so it is only read when TRUST_FORWARDED_HOST=true says a proxy in front of
+ * the app sets it; the right-most value is the one that proxy wrote.
+ */
+export function requestHost(headers: Headers): string | null {
+  if (process.env.TRUST_FORWARDED_HOST === "true") {
+    const hops = (headers.get("x-forwarded-host") ?? "")
+      .split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    if (hops.length) {
+      return hops[hops.length - 1];
+    }
+  }
+  return headers.get("host");
+}
+
+/**
+ * Returns the crawled site domain when `host` is an `ai.<domain>` mirror host.
+ * Accepts raw Host values, including ports.
+ */
+export function mirrorSiteFromHost(host: string | null | undefined): string | undefined {
+  const hostname = (host ?? "")
+    .split(",")[0]
+    .trim()
+    .toLowerCase()
+    .replace(/:\d+$/, "");
+  if (hostname.startsWith(MIRROR_HOST_PREFIX) && hostname.length > MIRROR_HOST_PREFIX.length) {
+    return hostname.slice(MIRROR_HOST_PREFIX.length);
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the crawled site domain a mirror request is for: the Host of an
+ * `ai.<domain>` request, or an explicit `?site=` parameter on any other host.
+ */
+export function resolveMirrorSite(request: Request): string | undefined {
+  const fromHost = mirrorSiteFromHost(requestHost(request.headers));
+  if (fromHost) {
+    return fromHost;
+  }
+
+  const site = new URL(request.url).searchParams.get("site")?.trim().toLowerCase();
+  return site ? site.replace(/^www\./, "") : undefined;
+}
+
+/**
+ * Picks the mirror representation for an Accept header: the supported type
+ * with the highest q-value, earliest listed on ties. Anything else is HTML.
+ */
+export function negotiateMirrorFormat(accept: string | null | undefined): MirrorFormat {
+  let best: { format: MirrorFormat; quality: number } | undefined;
+  for (const part of (accept ?? "").split(",")) {
+    const [type, ...params] = part.split(";").map((value) => value.trim().toLowerCase());
+    const format = ACCEPT_FORMATS[type];
+    if (!format) {
+      continue;
+    }
+    const q = params.find((param) => param.startsWith("q="));
+    const quality = q ? Number(q.slice(2)) : 1;
+    if (Number.isFinite(quality) && quality > 0 && (!best || quality > best.quality)) {
+      best = { format, quality };
+    }
+  }
+  return best?.format ?? "html";
+}
+
+/**
+ * Strips a `.md` / `.json` representation suffix from a mirror path. The
+ * suffix wins over the Accept header.
+ */
+export function splitMirrorSuffix(pathname: string): { pathname: string; format?: MirrorFormat } {
+  const match = pathname.match(/\.(md|json)$/i);
+  if (!match) {
+    return { pathname };
+  }
+  const stripped = pathname.slice(0, -match[0].length);
+  return {
+    pathname: stripped === "" || stripped === "/index" ? "/" : stripped,
+    format: SUFFIX_FORMATS[match[0].toLowerCase()],
+  };
+}
+
+// Where the middleware sends a mirror request, and which page it is for.
+export type MirrorRewrite = {
+  path: string;
+  format: MirrorFormat;
+  source?: string;
+  site?: string;
+  pathname?: string;
+};
+
+/**
+ * Maps a request on the mirror host to the internal route that renders it, or
+ * returns undefined for paths the mirror host serves directly.
+ */
+export function mirrorRewritePath(
+  site: string,
+  pathname: string,
+  accept?: string | null
+): MirrorRewrite | undefined {
+  if (MIRROR_HOST_FILES.has(pathname) || pathname.startsWith("/_next/")) {
+    return undefined;
+  }
+  const suffix = splitMirrorSuffix(pathname);
+  const format = suffix.format ?? negotiateMirrorFormat(accept);
+  const path =
+    format === "html"
+      ? `${MIRROR_ROUTE_PREFIX}/${encodeURIComponent(site)}${suffix.pathname === "/" ? "" : suffix.pathname}`
+      : `${MIRROR_FORMAT_ROUTE_PREFIX}/${format}?${new URLSearchParams({ site, path: suffix.pathname })}`;
+  return { path, format, site, pathname: suffix.pathname };
+}
+
+/**
+ * Maps `/ai?source=` (and `/ai.md`, `/ai.json`) to the route that renders the
+ * negotiated representation: the `/ai` page itself for HTML.
+ */
+export function sourceMirrorRewritePath(
+  pathname: string,
+  source: string | null,
+  accept?: string | null
+): MirrorRewrite | undefined {
+  if (!source || !/^\/ai(\.md|\.json)?$/i.test(pathname)) {
+    return undefined;
+  }
+  const format = splitMirrorSuffix(pathname).format ?? negotiateMirrorFormat(accept);
+  const path =
+    format === "html"
+      ? `${MIRROR_ROUTE_PREFIX}?${new URLSearchParams({ source })}`
+      : `${MIRROR_FORMAT_ROUTE_PREFIX}/${format}?${new URLSearchParams({ source })}`;
+  return { path, format, source };
+}
+
+/**
+ * Builds the `ai_url` stored for a crawled page from a mirror host path, using
+ * the same trailing-slash rules as the crawler's canonical URLs.
+ */
+export function buildMirrorPageUrl(site: string, pathname: string): string {
+  const path = pathname === "/" ? "/" : pathname.replace(/\/+$/, "") || "/";
+  return `https://${MIRROR_HOST_PREFIX}${site}${path}`;
+}
@@ -0,0 +1,19 @@
+import { buildMirrorPageUrl } from "@/lib/mirror-host";
+import { findCompletedCrawledPage } from "@/lib/mongodb";
+
+/**
+ * Resolves a mirror host path to the original page URL, or undefined when no
+ * completed crawl of the site recorded that path.
+ */
+export async function resolveHostedSource(
+  site: string,
+  pathname: string
+): Promise<string | undefined> {
+  try {
+    const page = await findCompletedCrawledPage(site, buildMirrorPageUrl(site, pathname));
+    return page?.url;
+  } catch (dbError) {
+    console.error("Failed to resolve AI mirror path from MongoDB:", dbError);
+    return undefined;
+  }
+}
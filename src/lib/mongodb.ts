@@ -1,4 +1,5 @@
-import { MongoClient, Db, Collection, ObjectId } from "mongodb";
+import { MongoClient, Db, Collection, ObjectId, Binary } from "mongodb";
+import type { PageImage, PageVideo, SitemapOptions } from "@/lib/crawler";
 
 const MONGODB_URI = process.env.MONGODB_URI || "";
 const MONGODB_DB = process.env.MONGODB_DB || "traffic-bifurcate";
@@ -33,6 +34,8 @@ export const COLLECTIONS = {
   FEED_DATA: "feed_data",
   USERS: "users",
   PASSWORD_RESET_TOKENS: "password_reset_tokens",
+  CRAWL_SCHEDULES: "crawl_schedules",
+  SITEMAP_FILES: "sitemap_files",
 } as const;
 
 // Types for users
@@ -51,15 +54,30 @@ export interface CrawledPage {
   ai_url: string;
   type: string;
   priority: number;
+  lastmod?: string;
+  changefreq?: string;
+  alternates?: Array<{ hreflang: string; href: string }>;
+  images?: PageImage[];
+  videos?: PageVideo[];
+  change_status?: "unchanged" | "modified" | "new";
   title?: string;
   description?: string;
   markdown?: string;
+  // Link depth, validators and content hash used by incremental recrawls
+  depth?: number;
+  etag?: string;
+  httpLastModified?: string;
+  contentHash?: string;
+  links?: string[];
+  sourceUrls?: string[]; // Fetched URLs whose canonical pointed at this page
+  position?: number; // Index in the crawl's page list, which fixes the sitemap order
   metadata?: {
     author?: string;
     published?: string;
     updated?: string;
     language?: string;
     contentType?: string;
+    encoding?: string;
     primaryTopics: string[];
     entities: string[];
   };
@@ -75,9 +93,18 @@ export interface CrawlSession {
   rootUrl: string;
   pageCount: number;
   generatedAt: Date;
-  completedAt: Date;
+  completedAt?: Date;
   status: "pending" | "completed" | "failed";
   error?: string;
+  previousSessionId?: string; // Set when this crawl was an incremental recrawl
+  changeSummary?: CrawlChangeSummary;
+}
+
+export interface CrawlChangeSummary {
+  unchanged: number;
+  modified: number;
+  new: number;
+  removed: number;
 }
 
 export interface CrawlHistoryItem {
@@ -86,8 +113,10 @@ export interface CrawlHistoryItem {
   rootUrl: string;
   pageCount: number;
   generatedAt: Date;
-  completedAt: Date;
+  completedAt?: Date;
   status: string;
+  previousSessionId?: string;
+  changeSummary?: CrawlChangeSummary;
 }
 
 // Types for AI mirror data
@@ -115,9 +144,19 @@ export interface AIMirrorData {
     author?: string;
     published?: string;
     updated?: string;
+    language?: string;
+    contentType?: string;
+    encoding?: string;
+    primaryTopics?: string[];
+    entities?: string[];
   };
+  // Set by the mirror render cache so it can rebuild the full extraction
+  title?: string;
+  canonical?: string;
+  contentHash?: string;
   sessionId?: string;
   createdAt?: Date;
+  updatedAt?: Date; // Last time the source was fetched for the mirror cache
 }
 
 // Types for feed data
@@ -126,13 +165,46 @@ export interface FeedData {
   siteDomain: string;
   rootUrl: string;
   format: "xml" | "json" | "both";
+  // Only on older feeds; the sitemap is now rebuilt from crawled_data, since
+  // a large crawl would not fit in one document.
   xmlContent?: string;
   jsonContent?: string;
+  sitemapOptions?: SitemapOptions;
   pageCount: number;
   sessionId?: string;
+  sitemapFiles?: string[]; // Child sitemap names stored in sitemap_files
   createdAt?: Date;
 }
 
+// Child sitemaps are kept gzipped in their own collection; an uncompressed
+// 50 MB sitemap would not fit in a single FeedData document.
+export interface SitemapFileRecord {
+  _id?: ObjectId;
+  sessionId: string;
+  name: string; // e.g. sitemap-1.xml
+  urlCount: number;
+  lastmod: string;
+  gzipContent: Binary;
+  createdAt: Date;
+}
+
+// Types for scheduled crawls
+export interface CrawlSchedule {
+  _id?: ObjectId;
+  scheduleId: string; // UUID used by the API and UI
+  userId?: string; // Owner of the schedule; the API ignores schedules without one
+  siteDomain: string;
+  rootUrl: string;
+  maxDepth: number;
+  cron: string; // Five-field cron expression, evaluated in UTC
+  paused: boolean;
+  nextRunAt?: Date | null; // Null while paused or when the expression never fires
+  lastRunAt?: Date;
+  lastSessionId?: string;
+  lastStatus?: "pending" | "completed" | "failed";
+  createdAt: Date;
+}
+
 // Helper functions for collections
 export async function getCrawledDataCollection(): Promise<Collection<CrawledPage>> {
   const { db } = await connectToDatabase();
@@ -228,14 +300,29 @@ export async function saveCrawledPages(
     ai_url: string;
     type: string;
     priority: number;
+    lastmod?: string;
+    changefreq?: string;
+    alternates?: Array<{ hreflang: string; href: string }>;
+    images?: PageImage[];
+    videos?: PageVideo[];
+    change_status?: "unchanged" | "modified" | "new";
     title?: string;
     description?: string;
+    metadata?: CrawledPage["metadata"];
+    markdown?: string;
+    depth?: number;
+    etag?: string;
+    httpLastModified?: string;
+    contentHash?: string;
+    links?: string[];
+    sourceUrls?: string[];
   }>,
   sessionId: string
 ): Promise<void> {
   const collection = await getCrawledDataCollection();
-  const documents = pages.map((page) => ({
+  const documents = pages.map((page, position) => ({
     ...page,
+    position,
     createdAt: new Date(),
     sessionId,
   }));
@@ -250,6 +337,22 @@ export async function saveCrawlSession(
   return result.insertedId.toString();
 }
 
+export async function updateCrawlSession(
+  sessionId: string,
+  update: Partial<Omit<CrawlSession, "_id" | "sessionId">>
+): Promise<boolean> {
+  const collection = await getCrawlSessionsCollection();
+  const result = await collection.updateOne({ sessionId }, { $set: update });
+  return result.matchedCount === 1;
+}
+
+export async function getCrawlSessionById(
+  sessionId: string
+): Promise<CrawlSession | null> {
+  const collection = await getCrawlSessionsCollection();
+  return collection.findOne({ sessionId });
+}
+
 export async function getAllCrawledItems(): Promise<CrawledPage[]> {
   const collection = await getCrawledDataCollection();
   return collection.find({}).sort({ createdAt: -1 }).toArray();
@@ -262,6 +365,122 @@ export async function getCrawledItemsBySession(
   return collection.find({ sessionId }).sort({ priority: -1 }).toArray();
 }
 
+/**
+ * A session's pages in the order the crawl recorded them, so sitemaps rebuilt
+ * from storage split into the same child files.
+ */
+export async function getCrawledPagesInCrawlOrder(
+  sessionId: string
+): Promise<CrawledPage[]> {
+  const collection = await getCrawledDataCollection();
+  return collection.find({ sessionId }).sort({ position: 1, _id: 1 }).toArray();
+}
+
+export async function getLatestCompletedSession(
+  siteDomain: string
+): Promise<CrawlSession | null> {
+  const collection = await getCrawlSessionsCollection();
+  return collection.findOne(
+    { siteDomain, status: "completed" },
+    { sort: { generatedAt: -1 } }
+  );
+}
+
+/**
+ * Finds the page behind an AI mirror URL in the most recent completed crawl
+ * of a site that recorded it.
+ */
+export async function findCompletedCrawledPage(
+  siteDomain: string,
+  aiUrl: string
+): Promise<CrawledPage | null> {
+  const sessions = await (await getCrawlSessionsCollection())
+    .find({ siteDomain, status: "completed" }, { projection: { sessionId: 1 } })
+    .toArray();
+  const sessionIds = sessions
+    .map((session) => session.sessionId)
+    .filter((id): id is string => Boolean(id));
+  if (!sessionIds.length) {
+    return null;
+  }
+
+  return (await getCrawledDataCollection()).findOne(
+    { sessionId: { $in: sessionIds }, ai_url: aiUrl },
+    { sort: { createdAt: -1 } }
+  );
+}
+
+/**
+ * Whether a completed crawl recorded any of `urls` as one of its pages.
+ */
+export async function isUrlInCompletedCrawl(urls: string[]): Promise<boolean> {
+  const sessionIds = await (await getCrawledDataCollection()).distinct("sessionId", {
+    url: { $in: urls },
+  });
+  if (!sessionIds.length) {
+    return false;
+  }
+  const session = await (await getCrawlSessionsCollection()).findOne(
+    { sessionId: { $in: sessionIds }, status: "completed" },
+    { projection: { _id: 1 } }
+  );
+  return session !== null;
+}
+
+/**
+ * The newest stored page with Markdown for `url` from a completed crawl;
+ * pages of failed or half-persisted sessions are never returned.
+ */
+export async function getLatestCrawledPageByUrl(
+  url: string
+): Promise<CrawledPage | null> {
+  const collection = await getCrawledDataCollection();
+  const query = { url, markdown: { $exists: true } };
+  const sessionIds = await collection.distinct("sessionId", query);
+  if (!sessionIds.length) {
+    return null;
+  }
+  const completed = (
+    await (await getCrawlSessionsCollection()).distinct("sessionId", {
+      sessionId: { $in: sessionIds },
+      status: "completed",
+    })
+  ).filter((id): id is string => Boolean(id));
+  if (!completed.length) {
+    return null;
+  }
+  return collection.findOne(
+    { ...query, sessionId: { $in: completed } },
+    { sort: { createdAt: -1 } }
+  );
+}
+
+/**
+ * URL/lastmod pairs from the most recent completed crawls of a site, used to
+ * estimate how often each page changes.
+ */
+export async function getLastmodHistory(
+  siteDomain: string,
+  limit = 10
+): Promise<Array<{ url: string; lastmod?: string }>> {
+  const sessions = await (await getCrawlSessionsCollection())
+    .find({ siteDomain, status: "completed" }, { projection: { sessionId: 1 } })
+    .sort({ generatedAt: -1 })
+    .limit(limit)
+    .toArray();
+  const sessionIds = sessions
+    .map((session) => session.sessionId)
+    .filter((id): id is string => Boolean(id));
+  if (!sessionIds.length) {
+    return [];
+  }
+
+  const pages = await (await getCrawledDataCollection())
+    .find({ sessionId: { $in: sessionIds } }, { projection: { url: 1, lastmod: 1 } })
+    .toArray();
+  return pages.map((page) => ({ url: page.url, lastmod: page.lastmod }));
+}
+
 export async function getCrawlHistory(userId?: string): Promise<CrawlHistoryItem[]> {
   const collection = await getCrawlSessionsCollection();
   const query = userId ? { userId } : {};
@@ -278,6 +497,8 @@ export async function getCrawlHistory(userId?: string): Promise<CrawlHistoryItem
     generatedAt: session.generatedAt,
     completedAt: session.completedAt,
     status: session.status,
+    previousSessionId: session.previousSessionId,
+    changeSummary: session.changeSummary,
   }));
 }
 
@@ -294,10 +515,12 @@ export async function deleteCrawlSession(sessionId: string): Promise<boolean> {
   const aiMirrorCollection = await getAIMirrorCollection();
 
   // Delete all related data for this session in parallel
+  const sitemapFilesCollection = await getSitemapFilesCollection();
   await Promise.all([
     dataCollection.deleteMany({ sessionId }),
     feedCollection.deleteMany({ sessionId }),
     aiMirrorCollection.deleteMany({ sessionId }),
+    sitemapFilesCollection.deleteMany({ sessionId }),
   ]);
 
   // Try deleting by sessionId field (UUID) first, then fall back to _id
@@ -338,6 +561,21 @@ export async function updateAIMirrorData(
   return result.modifiedCount === 1;
 }
 
+/**
+ * Inserts or replaces the cached mirror extraction for a source URL.
+ */
+export async function upsertAIMirrorData(
+  sourceUrl: string,
+  data: Omit<AIMirrorData, "_id" | "source_url" | "createdAt">
+): Promise<void> {
+  const collection = await getAIMirrorCollection();
+  await collection.updateOne(
+    { source_url: sourceUrl },
+    { $set: data, $setOnInsert: { source_url: sourceUrl, createdAt: new Date() } },
+    { upsert: true }
+  );
+}
+
 export async function getAIMirrorByUrl(
   sourceUrl: string
 ): Promise<AIMirrorData | null> {
@@ -390,3 +628,106 @@ export async function deleteFeedData(feedId: string): Promise<boolean> {
   const result = await collection.deleteOne({ _id: new ObjectId(feedId) });
   return result.deletedCount === 1;
 }
+
+// Crawl schedule operations
+export async function getCrawlSchedulesCollection(): Promise<Collection<CrawlSchedule>> {
+  const { db } = await connectToDatabase();
+  return db.collection<CrawlSchedule>(COLLECTIONS.CRAWL_SCHEDULES);
+}
+
+export async function createCrawlSchedule(
+  schedule: Omit<CrawlSchedule, "_id" | "createdAt">
+): Promise<string> {
+  const collection = await getCrawlSchedulesCollection();
+  const result = await collection.insertOne({
+    ...schedule,
+    createdAt: new Date(),
+  });
+  return result.insertedId.toString();
+}
+
+export async function getCrawlSchedules(userId: string): Promise<CrawlSchedule[]> {
+  const collection = await getCrawlSchedulesCollection();
+  return collection.find({ userId }).sort({ createdAt: -1 }).toArray();
+}
+
+export async function getCrawlScheduleById(
+  scheduleId: string
+): Promise<CrawlSchedule | null> {
+  const collection = await getCrawlSchedulesCollection();
+  return collection.findOne({ scheduleId });
+}
+
+export async function updateCrawlSchedule(
+  scheduleId: string,
+  update: Partial<Omit<CrawlSchedule, "_id" | "scheduleId">>
+): Promise<boolean> {
+  const collection = await getCrawlSchedulesCollection();
+  const result = await collection.updateOne({ scheduleId }, { $set: update });
+  return result.matchedCount === 1;
+}
+
+export async function deleteCrawlSchedule(scheduleId: string): Promise<boolean> {
+  const collection = await getCrawlSchedulesCollection();
+  const result = await collection.deleteOne({ scheduleId });
+  return result.deletedCount === 1;
+}
+
+export async function getDueCrawlSchedules(now: Date): Promise<CrawlSchedule[]> {
+  const collection = await getCrawlSchedulesCollection();
+  return collection
+    .find({ paused: false, nextRunAt: { $lte: now } })
+    .sort({ nextRunAt: 1 })
+    .toArray();
+}
+
+/**
+ * Moves a due schedule to its next run. Only succeeds if nobody else claimed
+ * this run first, so several server processes never start the same crawl.
+ */
+export async function claimCrawlSchedule(
+  scheduleId: string,
+  dueAt: Date,
+  update: Partial<Omit<CrawlSchedule, "_id" | "scheduleId">>
+): Promise<boolean> {
+  const collection = await getCrawlSchedulesCollection();
+  const result = await collection.updateOne(
+    { scheduleId, paused: false, nextRunAt: dueAt },
+    { $set: update }
+  );
+  return result.modifiedCount === 1;
+}
+
+// Sitemap file operations
+export async function getSitemapFilesCollection(): Promise<Collection<SitemapFileRecord>> {
+  const { db } = await connectToDatabase();
+  return db.collection<SitemapFileRecord>(COLLECTIONS.SITEMAP_FILES);
+}
+
+export async function saveSitemapFiles(
+  sessionId: string,
+  files: Array<{ name: string; urlCount: number; lastmod: string; gzipContent: Buffer }>
+): Promise<void> {
+  if (!files.length) {
+    return;
+  }
+  const collection = await getSitemapFilesCollection();
+  await collection.insertMany(
+    files.map((file) => ({
+      sessionId,
+      name: file.name,
+      urlCount: file.urlCount,
+      lastmod: file.lastmod,
+      gzipContent: new Binary(file.gzipContent),
+      createdAt: new Date(),
+    }))
+  );
+}
+
+export async function getSitemapFile(
+  sessionId: string,
+  name: string
+): Promise<SitemapFileRecord | null> {
+  const collection = await getSitemapFilesCollection();
+  return collection.findOne({ sessionId, name });
+}
@@ -0,0 +1,61 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { ExtractionError } from "@/lib/extraction-error";
+import { extractFromPdf, isPdfResponse } from "@/lib/pdf-extractor";
+
+const fixture = (name: string) =>
+  new Uint8Array(readFileSync(path.join(__dirname, "__fixtures__/pdf", name)));
+
+describe("extractFromPdf", () => {
+  it("extracts headings, paragraphs and document info", async () => {
+    const result = await extractFromPdf(fixture("report.pdf"), "https://example.com/files/q3.pdf");
+    expect(result.title).toBe("Q3 Report");
+    expect(result.markdown).toBe(
+      [
+        "## Quarterly Results",
+        "Revenue grew in every region this quarter, led by strong demand for subscriptions.",
+        "Costs stayed flat compared with last year.",
+      ].join("\n\n")
+    );
+    expect(result.metadata).toMatchObject({
+      canonical: "https://example.com/files/q3.pdf",
+      author: "Jane Analyst",
+      published: "2024-01-15T09:30:00.000Z",
+      contentType: "pdf",
+      primaryTopics: ["finance", "results"],
+      entities: ["Jane Analyst"],
+    });
+  });
+
+  it("titles untitled PDFs from the first heading", async () => {
+    const result = await extractFromPdf(fixture("untitled.pdf"), "https://example.com/guide.pdf");
+    expect(result.title).toBe("Installation Guide");
+    expect(result.markdown).toContain("Download the installer");
+  });
+
+  it("falls back to the file name for PDFs without text", async () => {
+    const result = await extractFromPdf(
+      fixture("blank.pdf"),
+      "https://example.com/docs/annual%20scan.pdf"
+    );
+    expect(result.title).toBe("annual scan");
+    expect(result.markdown).toMatch(/No extractable text/);
+  });
+
+  it("rejects data that is not a PDF", async () => {
+    await expect(
+      extractFromPdf(new TextEncoder().encode("<html></html>"), "https://example.com/x.pdf")
+    ).rejects.toBeInstanceOf(ExtractionError);
+  });
+});
+
+describe("isPdfResponse", () => {
+  it("trusts the Content-Type, then the extension of generic binaries", () => {
+    expect(isPdfResponse("application/pdf", "https://example.com/download")).toBe(true);
+    expect(isPdfResponse("application/octet-stream", "https://example.com/a.PDF")).toBe(true);
+    expect(isPdfResponse("", "https://example.com/a.pdf")).toBe(true);
+    expect(isPdfResponse("text/html", "https://example.com/a.pdf")).toBe(false);
+    expect(isPdfResponse("application/octet-stream", "https://example.com/a.zip")).toBe(false);
+  });
+});
@@ -0,0 +1,236 @@
+import { cleanText, titleFromUrl } from "@/lib/document-text";
+import type { ExtractedMetadata, ExtractionResult } from "@/lib/extractor";
+import { ExtractionError } from "@/lib/extraction-error";
+
+export const MAX_PDF_BYTES = 15 * 1024 * 1024;
+// Long reports are cut off rather than rejected; the first pages carry the gist.
+const MAX_PDF_PAGES = 100;
+// Lines set this much larger than the body text are treated as headings.
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LEVELS = 3;
+const MAX_HEADING_LENGTH = 160;
+
+const FALLBACK_CONTENT = "*No extractable text—the PDF may contain only scanned images.*";
+
+type PdfLine = {
+  text: string;
+  size: number;
+  y: number;
+};
+
+type PdfInfo = {
+  Title?: string;
+  Author?: string;
+  Subject?: string;
+  Keywords?: string;
+  Creator?: string;
+  Producer?: string;
+  CreationDate?: string;
+  ModDate?: string;
+  Language?: string;
+};
+
+/**
+ * Heuristic PDF extraction into the same shape as HTML pages: text lines are
+ * grouped into paragraphs, lines set noticeably larger than the body size
+ * become `##`–`####` headings, and the document info dictionary supplies the
+ * title, author, dates and keywords.
+ */
+export async function extractFromPdf(
+  data: Uint8Array,
+  finalUrl: string
+): Promise<ExtractionResult> {
+  // Loaded lazily so pdf.js is only pulled in when a PDF shows up.
+  const { getDocument, PDFDateString } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+
+  let pdf: Awaited<ReturnType<typeof getDocument>["promise"]>;
+  try {
+    pdf = await getDocument({
+      data: new Uint8Array(data),
+      isEvalSupported: false,
+      useSystemFonts: false,
+      verbosity: 0,
+    }).promise;
+  } catch {
+    throw new ExtractionError("Source PDF could not be parsed.", 400);
+  }
+
+  try {
+    const { info } = await pdf.getMetadata().catch(() => ({ info: {} }));
+    const pdfInfo = (info ?? {}) as PdfInfo;
+
+    const pages: PdfLine[][] = [];
+    for (let number = 1; number <= Math.min(pdf.numPages, MAX_PDF_PAGES); number += 1) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      pages.push(groupLines(content.items));
+      page.cleanup();
+    }
+
+    const markdown = toMarkdown(pages);
+    const toIso = (value?: string) => {
+      const date = value ? PDFDateString.toDateObject(value) : null;
+      return date ? date.toISOString() : undefined;
+    };
+    const author = cleanText(pdfInfo.Author);
+    const metadata: ExtractedMetadata = {
+      canonical: finalUrl,
+      author,
+      published: toIso(pdfInfo.CreationDate),
+      updated: toIso(pdfInfo.ModDate),
+      language: cleanText(pdfInfo.Language),
+      contentType: "pdf",
+      primaryTopics: splitKeywords(pdfInfo.Keywords),
+      entities: author ? [author] : [],
+    };
+
+    return {
+      title: cleanText(pdfInfo.Title) ?? firstHeading(markdown) ?? titleFromUrl(finalUrl),
+      url: finalUrl,
+      canonical: finalUrl,
+      markdown: markdown || FALLBACK_CONTENT,
+      metadata,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Whether a response is a PDF, by Content-Type or, for generic binary types,
+ * by the URL's extension.
+ */
+export function isPdfResponse(contentType: string, url: string): boolean {
+  if (contentType.includes("application/pdf")) {
+    return true;
+  }
+  return (
+    (!contentType || contentType.includes("application/octet-stream")) &&
+    new URL(url).pathname.toLowerCase().endsWith(".pdf")
+  );
+}
+
+// Text items on the same baseline form one line; the line size is its largest item.
+function groupLines(items: Array<object>): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | undefined;
+  for (const item of items) {
+    if (!("str" in item) || !("transform" in item)) {
+      continue;
+    }
+    const { str, transform, hasEOL } = item as {
+      str: string;
+      transform: number[];
+      hasEOL?: boolean;
+    };
+    const size = Math.round(Math.hypot(transform[2], transform[3]) * 10) / 10;
+    const y = transform[5];
+
+    if (current && Math.abs(current.y - y) > Math.max(current.size, size) / 2) {
+      lines.push(current);
+      current = undefined;
+    }
+    if (str) {
+      current = current
+        ? { text: current.text + str, size: Math.max(current.size, size), y: current.y }
+        : { text: str, size, y };
+    }
+    if (hasEOL && current) {
+      lines.push(current);
+      current = undefined;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+  return lines
+    .map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+    .filter((line) => line.text);
+}
+
+function toMarkdown(pages: PdfLine[][]): string {
+  const lines = pages.flat();
+  const bodySize = dominantSize(lines);
+  const headingSizes = Array.from(
+    new Set(lines.map((line) => line.size).filter((size) => size >= bodySize * HEADING_SIZE_RATIO))
+  )
+    .sort((a, b) => b - a)
+    .slice(0, MAX_HEADING_LEVELS);
+
+  const blocks: string[] = [];
+  for (const pageLines of pages) {
+    let paragraph: PdfLine[] = [];
+    const flush = () => {
+      if (paragraph.length) {
+        blocks.push(joinLines(paragraph.map((line) => line.text)));
+        paragraph = [];
+      }
+    };
+
+    pageLines.forEach((line, index) => {
+      const level = headingSizes.indexOf(line.size);
+      if (level !== -1 && line.text.length <= MAX_HEADING_LENGTH) {
+        flush();
+        const previous = blocks[blocks.length - 1];
+        const marker = `${"#".repeat(level + 2)} `;
+        // Headings wrapped over several lines are merged back together.
+        if (index > 0 && pageLines[index - 1].size === line.size && previous?.startsWith(marker)) {
+          blocks[blocks.length - 1] = `${previous} ${line.text}`;
+        } else {
+          blocks.push(`${marker}${line.text}`);
+        }
+        return;
+      }
+
+      const previous = paragraph[paragraph.length - 1];
+      // A gap well beyond normal line spacing starts a new paragraph.
+      if (previous && Math.abs(previous.y - line.y) > previous.size * 1.8) {
+        flush();
+      }
+      paragraph.push(line);
+    });
+    flush();
+  }
+
+  return blocks.join("\n\n").trim();
+}
+
+// The size covering the most characters is taken as the body text size.
+function dominantSize(lines: PdfLine[]): number {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    weights.set(line.size, (weights.get(line.size) ?? 0) + line.text.length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+// Re-joins hyphenated line breaks; other breaks become spaces.
+function joinLines(lines: string[]): string {
+  return lines.reduce((text, line) =>
+    /\w-$/.test(text) && /^[a-z]/.test(line) ? `${text.slice(0, -1)}${line}` : `${text} ${line}`
+  );
+}
+
+function firstHeading(markdown: string): string | undefined {
+  return markdown.match(/^#{2,4} (.+)$/m)?.[1];
+}
+
+
+function splitKeywords(value?: string): string[] {
+  return Array.from(
+    new Set(
+      (value ?? "")
+        .split(/[,;]/)
+        .map((keyword) => keyword.trim())
+        .filter(Boolean)
+    )
+  );
+}
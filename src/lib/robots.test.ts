@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import fixtures from "@/lib/__fixtures__/robots/rfc9309.json";
+import {
+  CRAWLER_TOKEN,
+  CRAWLER_USER_AGENT,
+  createRobotsPolicy,
+  fetchRobotsPolicy,
+  parseRobotsTxt,
+} from "@/lib/robots";
+
+type RobotsFixture = {
+  name: string;
+  robots: string;
+  agent?: string;
+  allowed: string[];
+  disallowed: string[];
+};
+
+describe("robots.txt matching", () => {
+  describe.each(fixtures as RobotsFixture[])("$name", (fixture) => {
+    const policy = createRobotsPolicy(
+      parseRobotsTxt(fixture.robots),
+      fixture.agent ?? CRAWLER_TOKEN
+    );
+
+    it.each(fixture.allowed)("allows %s", (path) => {
+      expect(policy.allows(path)).toBe(true);
+    });
+
+    it.each(fixture.disallowed)("disallows %s", (path) => {
+      expect(policy.allows(path)).toBe(false);
+    });
+  });
+});
+
+describe("CRAWLER_USER_AGENT", () => {
+  it("leads with the product token robots.txt groups are matched on", () => {
+    expect(CRAWLER_USER_AGENT).toMatch(new RegExp(`^${CRAWLER_TOKEN}/\\d`));
+    const robots = parseRobotsTxt(`User-agent: ${CRAWLER_TOKEN}\nDisallow: /\n`);
+    const token = CRAWLER_USER_AGENT.split("/")[0];
+    expect(createRobotsPolicy(robots, token).allows("/page")).toBe(false);
+  });
+});
+
+describe("parseRobotsTxt", () => {
+  it("collects sitemaps from anywhere in the file without duplicates", () => {
+    const robots = parseRobotsTxt(
+      "Sitemap: https://example.com/a.xml\nUser-agent: *\nDisallow: /x\nSitemap: https://example.com/b.xml\nSitemap: https://example.com/a.xml\n"
+    );
+    expect(robots.sitemaps).toEqual(["https://example.com/a.xml", "https://example.com/b.xml"]);
+  });
+
+  it("uses the largest crawl-delay of the merged groups", () => {
+    const robots = parseRobotsTxt(
+      "User-agent: TrafficBifurcateBot\nCrawl-delay: 2\n\nUser-agent: TrafficBifurcateBot\nCrawl-delay: 5\n\nUser-agent: *\nCrawl-delay: 30\n"
+    );
+    expect(createRobotsPolicy(robots).crawlDelay).toBe(5);
+  });
+
+  it("does not throw on emoji or lone surrogates", () => {
+    expect(() =>
+      createRobotsPolicy(parseRobotsTxt("User-agent: *\nDisallow: /🎉\nAllow: /\ud800\n"))
+    ).not.toThrow();
+  });
+});
+
+describe("fetchRobotsPolicy", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Public IP literals skip DNS; each test uses its own origin to avoid the cache.
+  const stubResponse = (response: Response | Error) =>
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        if (response instanceof Error) {
+          throw response;
+        }
+        return response;
+      })
+    );
+
+  it("parses a 200 response", async () => {
+    stubResponse(new Response("User-agent: *\nDisallow: /private\n"));
+    const policy = await fetchRobotsPolicy(new URL("http://93.184.216.34:8001/page"), {
+      userAgent: "test",
+    });
+    expect(policy.allows("/page")).toBe(true);
+    expect(policy.allows("/private")).toBe(false);
+  });
+
+  it("treats a 4xx as no restrictions", async () => {
+    stubResponse(new Response("Not found", { status: 404 }));
+    const policy = await fetchRobotsPolicy(new URL("http://93.184.216.34:8002/"), {
+      userAgent: "test",
+    });
+    expect(policy.allows("/anything")).toBe(true);
+  });
+
+  it("treats a 5xx as a full disallow", async () => {
+    stubResponse(new Response("Unavailable", { status: 503 }));
+    const policy = await fetchRobotsPolicy(new URL("http://93.184.216.34:8003/"), {
+      userAgent: "test",
+    });
+    expect(policy.allows("/")).toBe(false);
+    expect(policy.allows("/robots.txt")).toBe(true);
+  });
+
+  it("treats an unreachable server as a full disallow", async () => {
+    stubResponse(new TypeError("fetch failed"));
+    const policy = await fetchRobotsPolicy(new URL("http://93.184.216.34:8004/"), {
+      userAgent: "test",
+    });
+    expect(policy.allows("/")).toBe(false);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * robots.txt parsing and matching per RFC 9309, shared by the sitemap crawler
+ * and the MDF extractor.
+ */
+
+import { readBodyWithLimit, safeFetch } from "@/lib/safe-fetch";
+
+// Product token our crawler identifies as when picking a robots.txt group.
+export const CRAWLER_TOKEN = "TrafficBifurcateBot";
+
+// Sent on every crawler and extractor request, so site owners see the same
+// token their robots.txt groups name. CRAWLER_INFO_URL (or the app's URL)
+// tells them where the requests come from.
+const CRAWLER_INFO_URL =
+  process.env.CRAWLER_INFO_URL || process.env.AUTH_URL || process.env.NEXTAUTH_URL;
+export const CRAWLER_USER_AGENT = CRAWLER_INFO_URL
+  ? `${CRAWLER_TOKEN}/1.0 (+${CRAWLER_INFO_URL})`
+  : `${CRAWLER_TOKEN}/1.0`;
+
+// RFC 9309 §2.5: crawlers must parse at least 500 KiB.
+const MAX_ROBOTS_BYTES = 500 * 1024;
+const ROBOTS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export type RobotsRule = {
+  type: "allow" | "disallow";
+  pattern: string;
+};
+
+export type RobotsGroup = {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+};
+
+export type RobotsTxt = {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+};
+
+export type RobotsPolicy = {
+  allows: (path: string) => boolean;
+  crawlDelay?: number;
+  sitemaps: string[];
+};
+
+type CompiledRule = RobotsRule & {
+  matcher: RegExp;
+};
+
+type CachedPolicy = {
+  policy: RobotsPolicy;
+  expiresAt: number;
+};
+
+const policyCache = new Map<string, CachedPolicy>();
+
+/**
+ * Parses robots.txt into user-agent groups. Consecutive `User-agent` lines
+ * share one group; any rule line closes the list of agents for that group.
+ */
+export function parseRobotsTxt(contents: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | undefined;
+  let collectingAgents = false;
+
+  const lines = contents.slice(0, MAX_ROBOTS_BYTES).split(/\r\n|\r|\n/);
+  for (const raw of lines) {
+    const line = stripComment(raw).trim();
+    if (!line) {
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+        collectingAgents = true;
+      }
+      if (value) {
+        current.userAgents.push(value.toLowerCase());
+      }
+      continue;
+    }
+
+    // Sitemap lines are global and may appear anywhere in the file.
+    if (key === "sitemap") {
+      if (value) {
+        sitemaps.push(value);
+      }
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) {
+      continue;
+    }
+
+    if ((key === "allow" || key === "disallow") && value) {
+      current.rules.push({ type: key, pattern: normalizePattern(value) });
+      continue;
+    }
+
+    if (key === "crawl-delay") {
+      const seconds = Number.parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelay = seconds;
+      }
+    }
+  }
+
+  return { groups, sitemaps: dedupe(sitemaps) };
+}
+
+/**
+ * Builds the policy for one crawler. Groups naming the product token win;
+ * otherwise the `*` groups apply. Matching groups are merged as RFC 9309
+ * requires, and the longest matching rule decides, with Allow winning ties.
+ */
+export function createRobotsPolicy(
+  robots: RobotsTxt,
+  productToken: string = CRAWLER_TOKEN
+): RobotsPolicy {
+  const token = productToken.toLowerCase();
+  const named = robots.groups.filter((group) =>
+    group.userAgents.some((agent) => agentMatches(agent, token))
+  );
+  const selected = named.length
+    ? named
+    : robots.groups.filter((group) => group.userAgents.includes("*"));
+
+  const rules = selected
+    .flatMap((group) => group.rules)
+    .map<CompiledRule>((rule) => ({ ...rule, matcher: compilePattern(rule.pattern) }));
+  const delays = selected
+    .map((group) => group.crawlDelay)
+    .filter((delay): delay is number => typeof delay === "number");
+
+  return {
+    crawlDelay: delays.length ? Math.max(...delays) : undefined,
+    sitemaps: robots.sitemaps,
+    allows(path: string) {
+      const target = normalizePath(path);
+      if (target === "/robots.txt") {
+        return true;
+      }
+
+      let winner: CompiledRule | undefined;
+      for (const rule of rules) {
+        if (!rule.matcher.test(target)) {
+          continue;
+        }
+        if (
+          !winner ||
+          rule.pattern.length > winner.pattern.length ||
+          (rule.pattern.length === winner.pattern.length && rule.type === "allow")
+        ) {
+          winner = rule;
+        }
+      }
+      return !winner || winner.type === "allow";
+    },
+  };
+}
+
+export function allowAllRobots(): RobotsPolicy {
+  return { allows: () => true, sitemaps: [] };
+}
+
+export function disallowAllRobots(): RobotsPolicy {
+  return { allows: (path) => normalizePath(path) === "/robots.txt", sitemaps: [] };
+}
+
+/**
+ * Fetches and parses `/robots.txt` for the URL's origin, caching the result
+ * for a few minutes. Per RFC 9309 §2.3.1, a 4xx means no restrictions while
+ * a 5xx or network failure means the whole site is treated as disallowed.
+ */
+export async function fetchRobotsPolicy(
+  target: URL,
+  options: { userAgent: string; productToken?: string }
+): Promise<RobotsPolicy> {
+  const productToken = options.productToken ?? CRAWLER_TOKEN;
+  const cacheKey = `${target.origin}|${productToken.toLowerCase()}`;
+  const cached = policyCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy;
+  }
+
+  const robotsUrl = new URL("/robots.txt", target.origin);
+  const response = await safeFetch(robotsUrl, {
+    headers: { "User-Agent": options.userAgent },
+    cache: "no-store",
+  }).catch(() => undefined);
+
+  let policy: RobotsPolicy;
+  if (!response || response.status >= 500) {
+    policy = disallowAllRobots();
+  } else if (!response.ok) {
+    policy = allowAllRobots();
+  } else {
+    // Only the first MAX_ROBOTS_BYTES are parsed, so the rest is never downloaded.
+    const text = await readBodyWithLimit(response, MAX_ROBOTS_BYTES, { truncate: true })
+      .then((body) => body.toString("utf-8"))
+      .catch(() => "");
+    policy = createRobotsPolicy(parseRobotsTxt(text), productToken);
+  }
+
+  policyCache.set(cacheKey, {
+    policy,
+    expiresAt: Date.now() + ROBOTS_CACHE_TTL_MS,
+  });
+  return policy;
+}
+
+function agentMatches(agent: string, token: string): boolean {
+  // Tolerate version suffixes such as "TrafficBifurcateBot/1.0".
+  const product = agent.split("/")[0].trim();
+  return product === token;
+}
+
+function stripComment(line: string): string {
+  const hash = line.indexOf("#");
+  return hash === -1 ? line : line.slice(0, hash);
+}
+
+function normalizePattern(value: string): string {
+  const pattern = value.startsWith("/") || value.startsWith("*") ? value : `/${value}`;
+  return encodePath(pattern);
+}
+
+function normalizePath(path: string): string {
+  if (!path) {
+    return "/";
+  }
+  return encodePath(path.startsWith("/") ? path : `/${path}`);
+}
+
+// Percent-encode characters outside the URI charset and uppercase existing
+// escapes so rules and paths are compared in the same form. The `u` flag
+// keeps astral characters such as emoji in one piece.
+function encodePath(value: string): string {
+  return value
+    .replace(/%[0-9a-f]{2}/gi, (escape) => escape.toUpperCase())
+    .replace(/[^\x21-\x7e]/gu, encodeChar);
+}
+
+// A lone surrogate cannot be encoded as UTF-8; it stands in as U+FFFD.
+function encodeChar(char: string): string {
+  try {
+    return encodeURIComponent(char);
+  } catch {
+    return "%EF%BF%BD";
+  }
+}
+
+function compilePattern(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split("*")
+    .map((segment) => segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`);
+}
+
+function dedupe(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
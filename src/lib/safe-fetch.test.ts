@@ -0,0 +1,167 @@
+import dns from "dns";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { ExtractionError } from "@/lib/extraction-error";
+import { MAX_REDIRECTS, safeFetch } from "@/lib/safe-fetch";
+
+// What the up-front check in assertPublicUrl sees for each hostname.
+const checkedAddresses = vi.hoisted(() => new Map<string, string>());
+
+vi.mock("dns/promises", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("dns/promises")>();
+  return {
+    ...actual,
+    lookup: async (hostname: string) => {
+      const address = checkedAddresses.get(hostname);
+      if (!address) {
+        throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+      }
+      return [{ address, family: address.includes(":") ? 6 : 4 }];
+    },
+  };
+});
+
+// What the connection's own lookup sees: a rebinding host answers differently.
+function resolveAtConnect(address: string) {
+  return vi.spyOn(dns, "lookup").mockImplementation(((
+    _hostname: string,
+    _options: dns.LookupOptions,
+    callback: (error: null, addresses: dns.LookupAddress[]) => void
+  ) => {
+    callback(null, [{ address, family: 4 }]);
+  }) as unknown as typeof dns.lookup);
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ExtractionError> {
+  const error = await promise.then(
+    () => undefined,
+    (reason: unknown) => reason
+  );
+  expect(error).toBeInstanceOf(ExtractionError);
+  return error as ExtractionError;
+}
+
+afterEach(() => {
+  checkedAddresses.clear();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("safeFetch connection pinning", () => {
+  let server: Server;
+  let port: number;
+  let hits = 0;
+
+  beforeAll(async () => {
+    server = createServer((_request, response) => {
+      hits += 1;
+      response.end("internal");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("refuses a host that resolves to 127.0.0.1 when connecting", async () => {
+    checkedAddresses.set("rebind.test", "93.184.216.34");
+    const connectLookup = resolveAtConnect("127.0.0.1");
+
+    const error = await rejection(safeFetch(`http://rebind.test:${port}/`));
+    expect(error.status).toBe(403);
+    expect(connectLookup).toHaveBeenCalled();
+    expect(hits).toBe(0);
+  });
+
+  it("refuses a host that resolves to 10.x when connecting", async () => {
+    checkedAddresses.set("rebind.test", "93.184.216.34");
+    resolveAtConnect("10.0.0.1");
+
+    const error = await rejection(safeFetch(`http://rebind.test:${port}/`));
+    expect(error.status).toBe(403);
+    expect(error.message).toContain("private or internal");
+  });
+
+  it("refuses a private address before connecting", async () => {
+    checkedAddresses.set("internal.test", "10.1.2.3");
+    const connectLookup = resolveAtConnect("10.1.2.3");
+
+    const error = await rejection(safeFetch(`http://internal.test:${port}/`));
+    expect(error.status).toBe(403);
+    expect(connectLookup).not.toHaveBeenCalled();
+  });
+});
+
+describe("safeFetch IPv6 literals that embed IPv4", () => {
+  it.each([
+    ["NAT64 metadata", "http://[64:ff9b::a9fe:a9fe]/latest/meta-data"],
+    ["NAT64 loopback", "http://[64:ff9b::7f00:1]/"],
+    ["6to4", "http://[2002:7f00:1::1]/"],
+    ["Teredo", "http://[2001:0:4136:e378:8000:63bf:3fff:fdd2]/"],
+  ])("refuses a %s address", async (_name, url) => {
+    const fetchMock = vi.fn(async () => new Response("internal"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const error = await rejection(safeFetch(url));
+    expect(error.status).toBe(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("safeFetch redirects", () => {
+  const redirect = (location: string, status = 302) =>
+    new Response(null, { status, headers: { location } });
+
+  function stubFetch(...responses: Response[]) {
+    const fetchMock = vi.fn(async () => responses.shift() ?? new Response("done"));
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  it("follows redirects between public hosts", async () => {
+    const fetchMock = stubFetch(redirect("http://93.184.216.35/next", 303));
+    const response = await safeFetch("http://93.184.216.34/start", { method: "POST", body: "x" });
+    expect(await response.text()).toBe("done");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchMock.mock.calls[1] as unknown as [URL, RequestInit];
+    expect(url.toString()).toBe("http://93.184.216.35/next");
+    expect(init.method).toBe("GET");
+  });
+
+  it("refuses a redirect to a private address", async () => {
+    const fetchMock = stubFetch(redirect("http://127.0.0.1/admin"));
+    const error = await rejection(safeFetch("http://93.184.216.34/"));
+    expect(error.status).toBe(403);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses a redirect to a hostname that resolves to a private address", async () => {
+    checkedAddresses.set("metadata.test", "169.254.169.254");
+    const fetchMock = stubFetch(redirect("http://metadata.test/latest/meta-data"));
+    const error = await rejection(safeFetch("http://93.184.216.34/"));
+    expect(error.status).toBe(403);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it(`stops after ${MAX_REDIRECTS} redirects`, async () => {
+    const fetchMock = vi.fn(async (url: URL) =>
+      redirect(`/hop-${Number(url.pathname.split("-")[1] ?? 0) + 1}`)
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const error = await rejection(safeFetch("http://93.184.216.34/hop-0"));
+    expect(error.status).toBe(502);
+    expect(error.message).toContain(`more than ${MAX_REDIRECTS} times`);
+    expect(fetchMock).toHaveBeenCalledTimes(MAX_REDIRECTS + 1);
+  });
+
+  it("honours a lower redirect limit", async () => {
+    const fetchMock = stubFetch(redirect("/a"), redirect("/b"));
+    const error = await rejection(safeFetch("http://93.184.216.34/", {}, { maxRedirects: 1 }));
+    expect(error.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,281 @@
+import dns from "dns";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { Agent } from "undici";
+import { ExtractionError } from "@/lib/extraction-error";
+
+export const MAX_REDIRECTS = 5;
+// Covers connecting, every redirect hop and reading the body.
+export const DEFAULT_FETCH_TIMEOUT_MS = 15_000;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Loopback, private, link-local, carrier-grade NAT, multicast, reserved and
+// documentation ranges. IPv6 forms that embed an IPv4 address (mapped,
+// compatible, NAT64, 6to4 and Teredo) are rejected outright rather than
+// unwrapped.
+const BLOCKED_RANGES: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.0.2.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["198.51.100.0", 24, "ipv4"],
+  ["203.0.113.0", 24, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 96, "ipv6"],
+  ["::ffff:0:0", 96, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"],
+  ["64:ff9b:1::", 48, "ipv6"],
+  ["100::", 64, "ipv6"],
+  ["2001::", 32, "ipv6"],
+  ["2001:db8::", 32, "ipv6"],
+  ["2002::", 16, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["fec0::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+// One list per family: BlockList matches IPv4 addresses against IPv6 rules
+// such as ::/96, which would block every IPv4 address.
+const blockedAddresses = { ipv4: new BlockList(), ipv6: new BlockList() };
+for (const [address, prefix, type] of BLOCKED_RANGES) {
+  blockedAddresses[type].addSubnet(address, prefix, type);
+}
+
+// Raised from the connection's own DNS lookup when the host now resolves to
+// a blocked address, e.g. after DNS rebinding.
+class BlockedAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} resolves to a private or internal address.`);
+    this.name = "BlockedAddressError";
+  }
+}
+
+// Connections resolve hostnames through this lookup, so the address that is
+// checked is the address that is connected to.
+const pinnedAgent = new Agent({
+  connect: {
+    lookup: (hostname, options, callback) => {
+      dns.lookup(hostname, { ...options, all: true, verbatim: true }, (error, entries) => {
+        if (error) {
+          callback(error, "", 0);
+          return;
+        }
+        if (!entries.length || entries.some((entry) => isBlockedAddress(entry.address))) {
+          callback(new BlockedAddressError(hostname), "", 0);
+          return;
+        }
+        if ((options as dns.LookupOptions).all) {
+          (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(
+            null,
+            entries
+          );
+        } else {
+          callback(null, entries[0].address, entries[0].family);
+        }
+      });
+    },
+  },
+});
+
+export type SafeFetchOptions = {
+  maxRedirects?: number;
+  timeoutMs?: number;
+};
+
+// The source took longer than the request's time budget.
+export class FetchTimeoutError extends ExtractionError {
+  constructor(message = "Source did not respond in time.") {
+    super(message, 504);
+    this.name = "FetchTimeoutError";
+  }
+}
+
+/**
+ * `fetch` for user-supplied URLs. Only public http(s) hosts are contacted:
+ * every hop's hostname is resolved and rejected if any address is private or
+ * internal, and redirects are followed by hand so each target is checked too.
+ * Failures throw ExtractionError with the status the API should return, or
+ * FetchTimeoutError once `timeoutMs` has passed, including while the body is
+ * still being read.
+ */
+export async function safeFetch(
+  input: string | URL,
+  init: RequestInit = {},
+  options: SafeFetchOptions = {}
+): Promise<Response> {
+  const maxRedirects = options.maxRedirects ?? MAX_REDIRECTS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout;
+  let url = new URL(input);
+  let requestInit: RequestInit = { ...init, redirect: "manual", signal };
+
+  for (let redirects = 0; ; redirects += 1) {
+    await assertPublicUrl(url);
+    let blocked = false;
+    const response = await fetch(url, {
+      ...requestInit,
+      dispatcher: pinnedAgent,
+    } as RequestInit).catch((error: unknown) => {
+      blocked = isBlockedConnection(error);
+      return undefined;
+    });
+    if (!response) {
+      if (blocked) {
+        throw new ExtractionError(
+          `Refusing to fetch ${url.hostname}: it resolves to a private or internal address.`,
+          403
+        );
+      }
+      if (timeout.aborted) {
+        throw new FetchTimeoutError(`Source did not respond within ${timeoutMs / 1000} s.`);
+      }
+      throw new ExtractionError("Unable to reach source URL.", 502);
+    }
+
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return response;
+    }
+    await response.body?.cancel().catch(() => undefined);
+
+    if (redirects >= maxRedirects) {
+      throw new ExtractionError(`Source redirected more than ${maxRedirects} times.`, 502);
+    }
+    try {
+      url = new URL(location, url);
+    } catch {
+      throw new ExtractionError("Source sent an invalid redirect location.", 502);
+    }
+    if (response.status === 303) {
+      requestInit = { ...requestInit, method: "GET", body: undefined };
+    }
+  }
+}
+
+/**
+ * Reads a response body without buffering more than `maxBytes`. A larger
+ * Content-Length is refused before reading; otherwise the stream is cancelled
+ * as soon as the limit is crossed. With `truncate`, the first `maxBytes` are
+ * returned instead of throwing.
+ */
+export async function readBodyWithLimit(
+  response: Response,
+  maxBytes: number,
+  options: { truncate?: boolean } = {}
+): Promise<Buffer> {
+  const tooLarge = () =>
+    new ExtractionError(
+      `Source document exceeds the ${formatLimit(maxBytes)} safety limit.`,
+      400
+    );
+
+  const declared = Number(response.headers.get("content-length"));
+  if (!options.truncate && Number.isFinite(declared) && declared > maxBytes) {
+    await response.body?.cancel().catch(() => undefined);
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        if (!options.truncate) {
+          throw tooLarge();
+        }
+        chunks.push(value.subarray(0, value.byteLength - (received - maxBytes)));
+        break;
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof ExtractionError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new FetchTimeoutError("Source timed out while sending the response.");
+    }
+    throw new ExtractionError("Connection to the source failed mid-response.", 502);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Rejects URLs that are not http(s) or whose host is, or resolves to, a
+ * private, loopback, link-local or otherwise internal address.
+ *
+ * safeFetch checks the address again when it connects, so a host that
+ * changes its DNS answer in between is still refused.
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  if (!["http:", "https:"].includes(url.protocol)) {
+    throw new ExtractionError("Only HTTP(S) URLs are supported.", 400);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(
+        (entry) => entry.address
+      );
+    } catch {
+      throw new ExtractionError(`Unable to resolve ${hostname}.`, 502);
+    }
+  }
+
+  if (!addresses.length || addresses.some(isBlockedAddress)) {
+    throw new ExtractionError(
+      `Refusing to fetch ${hostname}: it resolves to a private or internal address.`,
+      403
+    );
+  }
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) {
+    return true;
+  }
+  const type = family === 6 ? "ipv6" : "ipv4";
+  return blockedAddresses[type].check(address, type);
+}
+
+// fetch wraps connection errors, so the lookup's error sits in the cause chain.
+function isBlockedConnection(error: unknown): boolean {
+  let current: unknown = error;
+  while (current instanceof Error) {
+    if (current instanceof BlockedAddressError) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+function formatLimit(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${bytes / (1024 * 1024)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
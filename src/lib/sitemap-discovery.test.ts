@@ -0,0 +1,141 @@
+import { gzipSync } from "zlib";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// URL -> sitemap body; anything else answers 404.
+const files = vi.hoisted(() => new Map<string, string | Uint8Array<ArrayBuffer>>());
+
+vi.mock("@/lib/safe-fetch", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/safe-fetch")>();
+  return {
+    ...actual,
+    safeFetch: vi.fn(async (input: string | URL) => {
+      const body = files.get(String(input));
+      return body === undefined
+        ? new Response("not found", { status: 404 })
+        : new Response(body, { headers: { "content-type": "application/xml" } });
+    }),
+  };
+});
+
+const { safeFetch } = await import("@/lib/safe-fetch");
+const { collectSitemapEntries, parseSitemapXml, sitemapCandidates } = await import(
+  "@/lib/sitemap-discovery"
+);
+
+const root = new URL("https://example.com/");
+const options = { userAgent: "test", maxEntries: 100, root };
+
+const urlset = (...urls: string[]) =>
+  `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls
+    .map((url) => `<url><loc>${url}</loc></url>`)
+    .join("")}</urlset>`;
+const index = (...urls: string[]) =>
+  `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls
+    .map((url) => `<sitemap><loc>${url}</loc></sitemap>`)
+    .join("")}</sitemapindex>`;
+
+afterEach(() => {
+  files.clear();
+  vi.mocked(safeFetch).mockClear();
+});
+
+describe("sitemapCandidates", () => {
+  it("lists robots.txt sitemaps, then /sitemap.xml once", () => {
+    expect(
+      sitemapCandidates(root, [
+        "https://example.com/maps/a.xml",
+        "https://example.com/sitemap.xml",
+      ])
+    ).toEqual(["https://example.com/maps/a.xml", "https://example.com/sitemap.xml"]);
+    expect(sitemapCandidates(new URL("https://example.com/blog/"), [])).toEqual([
+      "https://example.com/sitemap.xml",
+    ]);
+  });
+});
+
+describe("collectSitemapEntries", () => {
+  it("falls back to /sitemap.xml when the robots.txt sitemap is missing", async () => {
+    files.set("https://example.com/sitemap.xml", urlset("https://example.com/a"));
+    const entries = await collectSitemapEntries(
+      sitemapCandidates(root, ["https://example.com/missing.xml"]),
+      options
+    );
+    expect(entries).toEqual([{ url: "https://example.com/a", lastmod: undefined }]);
+  });
+
+  it("follows nested indexes two levels deep, including gzipped files", async () => {
+    files.set("https://example.com/sitemap.xml", index("https://example.com/level1.xml"));
+    files.set(
+      "https://example.com/level1.xml",
+      index("https://example.com/level2.xml.gz", "https://example.com/pages.xml")
+    );
+    files.set(
+      "https://example.com/level2.xml.gz",
+      new Uint8Array(gzipSync(index("https://example.com/level3.xml")))
+    );
+    files.set("https://example.com/pages.xml", urlset("https://example.com/deep"));
+    files.set("https://example.com/level3.xml", urlset("https://example.com/too-deep"));
+
+    const entries = await collectSitemapEntries(["https://example.com/sitemap.xml"], options);
+    expect(entries.map((entry) => entry.url)).toEqual(["https://example.com/deep"]);
+    expect(safeFetch).not.toHaveBeenCalledWith("https://example.com/level3.xml", expect.anything());
+  });
+
+  it("only returns pages and nested sitemaps on the crawled site", async () => {
+    files.set(
+      "https://cdn.example.net/sitemap.xml",
+      index("https://www.example.com/posts.xml", "https://evil.test/sitemap.xml")
+    );
+    files.set(
+      "https://www.example.com/posts.xml",
+      urlset("https://www.example.com/post", "https://evil.test/page", "https://example.com/post")
+    );
+    files.set("https://evil.test/sitemap.xml", urlset("https://evil.test/other"));
+
+    const entries = await collectSitemapEntries(["https://cdn.example.net/sitemap.xml"], options);
+    expect(entries.map((entry) => entry.url)).toEqual([
+      "https://www.example.com/post",
+      "https://example.com/post",
+    ]);
+    expect(safeFetch).not.toHaveBeenCalledWith("https://evil.test/sitemap.xml", expect.anything());
+  });
+
+  it("deduplicates entries and stops at maxEntries", async () => {
+    files.set(
+      "https://example.com/sitemap.xml",
+      urlset(
+        "https://example.com/a",
+        "https://example.com/a",
+        "https://example.com/b",
+        "https://example.com/c"
+      )
+    );
+    const entries = await collectSitemapEntries(["https://example.com/sitemap.xml"], {
+      ...options,
+      maxEntries: 2,
+    });
+    expect(entries.map((entry) => entry.url)).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+  });
+});
+
+describe("parseSitemapXml", () => {
+  it("reads prefixed tags, CDATA, entities and lastmod", () => {
+    const parsed = parseSitemapXml(
+      `<s:urlset xmlns:s="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <s:url><s:loc><![CDATA[https://example.com/?a=1&b=2]]></s:loc><s:lastmod>2024-03-01</s:lastmod></s:url>
+        <s:url><s:loc>https://example.com/x?a=1&amp;b=2</s:loc><s:lastmod>soon</s:lastmod></s:url>
+        <s:url><s:loc>/relative</s:loc></s:url>
+      </s:urlset>`
+    );
+    expect(parsed).toEqual({
+      kind: "urlset",
+      entries: [
+        { url: "https://example.com/?a=1&b=2", lastmod: "2024-03-01T00:00:00.000Z" },
+        { url: "https://example.com/x?a=1&b=2", lastmod: undefined },
+      ],
+    });
+  });
+});
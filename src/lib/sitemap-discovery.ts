@@ -0,0 +1,176 @@
+import { gunzipSync } from "zlib";
+import { readBodyWithLimit, safeFetch } from "@/lib/safe-fetch";
+
+const MAX_SITEMAP_FILES = 10;
+const MAX_SITEMAP_BYTES = 10 * 1024 * 1024; // Decompressed size cap per file.
+const MAX_INDEX_DEPTH = 2;
+
+export type SitemapEntry = {
+  url: string;
+  lastmod?: string;
+};
+
+type DiscoveryOptions = {
+  userAgent: string;
+  maxEntries: number;
+  // The crawled site. Page URLs and nested sitemaps on other hosts are
+  // skipped; a `www.` prefix does not count as a different host.
+  root: URL;
+};
+
+type ParsedSitemap = {
+  kind: "urlset" | "index";
+  entries: SitemapEntry[];
+};
+
+/**
+ * Candidate sitemap locations for a site: every robots.txt `Sitemap:` line
+ * plus the conventional `/sitemap.xml`.
+ */
+export function sitemapCandidates(root: URL, robotsSitemaps: string[]): string[] {
+  const candidates = [...robotsSitemaps, new URL("/sitemap.xml", root.origin).toString()];
+  return Array.from(new Set(candidates));
+}
+
+/**
+ * Walks urlsets and sitemap indexes (plain or gzipped) breadth-first and
+ * returns page URLs in document order with their `<lastmod>` values. The
+ * starting URLs may live elsewhere, as robots.txt allows, but everything
+ * they point to must be on the crawled site.
+ */
+export async function collectSitemapEntries(
+  sitemapUrls: string[],
+  options: DiscoveryOptions
+): Promise<SitemapEntry[]> {
+  const queue = sitemapUrls.map((url) => ({ url, depth: 0 }));
+  const fetched = new Set<string>();
+  const seen = new Set<string>();
+  const entries: SitemapEntry[] = [];
+
+  while (queue.length && fetched.size < MAX_SITEMAP_FILES && entries.length < options.maxEntries) {
+    const current = queue.shift()!;
+    if (fetched.has(current.url)) {
+      continue;
+    }
+    fetched.add(current.url);
+
+    const xml = await fetchSitemapXml(current.url, options.userAgent);
+    if (!xml) {
+      continue;
+    }
+
+    const parsed = parseSitemapXml(xml);
+    if (parsed.kind === "index") {
+      if (current.depth < MAX_INDEX_DEPTH) {
+        for (const child of parsed.entries) {
+          if (isSameSite(options.root, child.url)) {
+            queue.push({ url: child.url, depth: current.depth + 1 });
+          }
+        }
+      }
+      continue;
+    }
+
+    for (const entry of parsed.entries) {
+      if (seen.has(entry.url) || !isSameSite(options.root, entry.url)) {
+        continue;
+      }
+      seen.add(entry.url);
+      entries.push(entry);
+      if (entries.length >= options.maxEntries) {
+        break;
+      }
+    }
+  }
+
+  return entries;
+}
+
+export function parseSitemapXml(xml: string): ParsedSitemap {
+  const kind = /<(?:[\w-]+:)?sitemapindex[\s>]/i.test(xml) ? "index" : "urlset";
+  const tag = kind === "index" ? "sitemap" : "url";
+  const blockPattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}[\\s>]([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`,
+    "gi"
+  );
+
+  const entries: SitemapEntry[] = [];
+  for (const match of xml.matchAll(blockPattern)) {
+    const block = match[1];
+    const loc = readElement(block, "loc");
+    if (!loc || !/^https?:\/\//i.test(loc)) {
+      continue;
+    }
+    entries.push({ url: loc, lastmod: normalizeLastmod(readElement(block, "lastmod")) });
+  }
+
+  return { kind, entries };
+}
+
+async function fetchSitemapXml(url: string, userAgent: string): Promise<string | undefined> {
+  const response = await safeFetch(url, {
+    headers: {
+      "User-Agent": userAgent,
+      Accept: "application/xml,text/xml,application/x-gzip,*/*;q=0.5",
+    },
+    cache: "no-store",
+  }).catch(() => undefined);
+
+  if (!response || !response.ok) {
+    return undefined;
+  }
+
+  const buffer = await readBodyWithLimit(response, MAX_SITEMAP_BYTES).catch(() => undefined);
+  if (!buffer?.byteLength) {
+    return undefined;
+  }
+
+  // Gzip is detected by magic bytes; servers rarely label .xml.gz correctly.
+  if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    try {
+      return gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES }).toString("utf-8");
+    } catch {
+      return undefined;
+    }
+  }
+
+  return buffer.toString("utf-8");
+}
+
+function isSameSite(root: URL, url: string): boolean {
+  const hostKey = (hostname: string) => hostname.replace(/^www\./i, "").toLowerCase();
+  try {
+    return hostKey(new URL(url).hostname) === hostKey(root.hostname);
+  } catch {
+    return false;
+  }
+}
+
+function readElement(block: string, name: string): string | undefined {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${name}[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`,
+    "i"
+  );
+  const raw = block.match(pattern)?.[1];
+  if (!raw) {
+    return undefined;
+  }
+  return decodeXml(raw.replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1").trim());
+}
+
+function normalizeLastmod(value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
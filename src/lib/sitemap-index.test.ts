@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { PageEntry } from "@/lib/crawler";
+import {
+  buildSitemapIndexXml,
+  gunzipSitemap,
+  gzipSitemap,
+  splitSitemap,
+} from "@/lib/sitemap-index";
+
+const generatedAt = "2024-10-05T00:00:00.000Z";
+
+const pages: PageEntry[] = Array.from({ length: 7 }, (_, index) => ({
+  url: `https://example.com/page-${index + 1}`,
+  ai_url: `https://ai.example.com/page-${index + 1}`,
+  type: "article",
+  priority: 0.5,
+  lastmod: index === 3 ? undefined : `2024-10-0${(index % 4) + 1}T00:00:00.000Z`,
+}));
+
+const locs = (xml: string) => Array.from(xml.matchAll(/<loc>(.*?)<\/loc>/g), (match) => match[1]);
+
+describe("splitSitemap", () => {
+  it("splits pages into numbered files at the per-file URL limit", () => {
+    const files = splitSitemap("example.com", pages, generatedAt, {}, 3);
+    expect(files.map((file) => [file.name, file.urlCount])).toEqual([
+      ["sitemap-1.xml", 3],
+      ["sitemap-2.xml", 3],
+      ["sitemap-3.xml", 1],
+    ]);
+    expect(files.flatMap((file) => locs(file.xml))).toEqual(pages.map((page) => page.url));
+  });
+
+  it("uses the newest lastmod of each file, counting the crawl time for pages without one", () => {
+    const files = splitSitemap("example.com", pages, generatedAt, {}, 3);
+    expect(files.map((file) => file.lastmod)).toEqual([
+      "2024-10-03T00:00:00.000Z",
+      generatedAt,
+      "2024-10-03T00:00:00.000Z",
+    ]);
+  });
+
+  it("halves files that exceed the byte limit", () => {
+    const single = splitSitemap("example.com", pages.slice(0, 1), generatedAt)[0].xml;
+    const files = splitSitemap(
+      "example.com",
+      pages,
+      generatedAt,
+      {},
+      pages.length,
+      Buffer.byteLength(single) + 400
+    );
+    expect(files.length).toBeGreaterThan(1);
+    expect(files.every((file) => Buffer.byteLength(file.xml) <= Buffer.byteLength(single) + 400)).toBe(
+      true
+    );
+    expect(files.flatMap((file) => locs(file.xml))).toEqual(pages.map((page) => page.url));
+  });
+
+  it("writes one empty file when there are no pages", () => {
+    const files = splitSitemap("example.com", [], generatedAt, {}, 3);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({ name: "sitemap-1.xml", urlCount: 0, lastmod: generatedAt });
+  });
+});
+
+describe("buildSitemapIndexXml", () => {
+  const files = splitSitemap("example.com", pages, generatedAt, {}, 3);
+
+  it("points at every child sitemap under the base URL", () => {
+    const xml = buildSitemapIndexXml("example.com", files, "https://app.test/files/abc", generatedAt);
+    expect(locs(xml)).toEqual([
+      "https://app.test/files/abc/sitemap-1.xml",
+      "https://app.test/files/abc/sitemap-2.xml",
+      "https://app.test/files/abc/sitemap-3.xml",
+    ]);
+    expect(xml).toContain(`<lastmod>${generatedAt}</lastmod>`);
+  });
+
+  it("references the gzip variants when asked", () => {
+    const xml = buildSitemapIndexXml("example.com", files, "https://app.test/files/abc/", generatedAt, {
+      gzip: true,
+    });
+    expect(locs(xml)[0]).toBe("https://app.test/files/abc/sitemap-1.xml.gz");
+  });
+});
+
+describe("gzipSitemap", () => {
+  it("round-trips the XML", () => {
+    const { xml } = splitSitemap("example.com", pages, generatedAt, {}, 3)[0];
+    expect(gunzipSitemap(gzipSitemap(xml))).toBe(xml);
+  });
+});
@@ -0,0 +1,113 @@
+import { gunzipSync, gzipSync } from "zlib";
+import {
+  buildSitemapXml,
+  escapeXml,
+  type PageEntry,
+  type SitemapOptions,
+} from "@/lib/crawler";
+
+// sitemaps.org limits for a single child sitemap (uncompressed).
+export const MAX_URLS_PER_SITEMAP = 50_000;
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export type SitemapFile = {
+  name: string;
+  xml: string;
+  urlCount: number;
+  lastmod: string;
+};
+
+/**
+ * Splits pages into numbered child sitemaps (`sitemap-1.xml`, ...) that each
+ * stay under the URL and byte limits. Page order is preserved.
+ */
+export function splitSitemap(
+  site: string,
+  pages: PageEntry[],
+  generatedAt: string,
+  options: SitemapOptions = {},
+  maxUrls = MAX_URLS_PER_SITEMAP,
+  maxBytes = MAX_SITEMAP_BYTES
+): SitemapFile[] {
+  const chunks: PageEntry[][] = [];
+  for (let index = 0; index < pages.length; index += maxUrls) {
+    chunks.push(pages.slice(index, index + maxUrls));
+  }
+  if (!chunks.length) {
+    chunks.push([]);
+  }
+
+  const files: SitemapFile[] = [];
+  const pending = [...chunks];
+  while (pending.length) {
+    const chunk = pending.shift()!;
+    const xml = buildSitemapXml(site, chunk, generatedAt, options);
+    // Oversized chunks are halved until every file fits the byte limit.
+    if (Buffer.byteLength(xml) > maxBytes && chunk.length > 1) {
+      const middle = Math.ceil(chunk.length / 2);
+      pending.unshift(chunk.slice(0, middle), chunk.slice(middle));
+      continue;
+    }
+    files.push({
+      name: `sitemap-${files.length + 1}.xml`,
+      xml,
+      urlCount: chunk.length,
+      lastmod: latestLastmod(chunk, generatedAt),
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Builds a `<sitemapindex>` pointing at child sitemaps served under `baseUrl`.
+ * With `gzip`, the index references the `.xml.gz` variant of each child.
+ */
+export function buildSitemapIndexXml(
+  site: string,
+  files: Pick<SitemapFile, "name" | "lastmod">[],
+  baseUrl: string,
+  generatedAt: string,
+  options: { gzip?: boolean } = {}
+): string {
+  const base = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+  const entries = files.map((file) => {
+    const name = options.gzip ? `${file.name}.gz` : file.name;
+    return [
+      "  <sitemap>",
+      `    <loc>${escapeXml(new URL(name, base).toString())}</loc>`,
+      `    <lastmod>${escapeXml(file.lastmod)}</lastmod>`,
+      "  </sitemap>",
+    ].join("\n");
+  });
+
+  return [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    `  <!--  created with Traffic Bifurcate crawler for ${escapeXml(site)} at ${escapeXml(
+      generatedAt
+    )}  -->`,
+    ...entries,
+    "</sitemapindex>",
+  ].join("\n");
+}
+
+export function gzipSitemap(xml: string): Buffer {
+  return gzipSync(Buffer.from(xml, "utf-8"));
+}
+
+export function gunzipSitemap(content: Uint8Array): string {
+  return gunzipSync(content).toString("utf-8");
+}
+
+// Pages without a lastmod are written with the crawl timestamp, so count it too.
+function latestLastmod(pages: PageEntry[], generatedAt: string): string {
+  let latest: string | undefined;
+  for (const page of pages) {
+    const lastmod = page.lastmod ?? generatedAt;
+    if (!latest || Date.parse(lastmod) > Date.parse(latest)) {
+      latest = lastmod;
+    }
+  }
+  return latest ?? generatedAt;
+}
@@ -3,6 +3,8 @@
  * Analyzes content to ensure it's properly formatted for AI systems
  */
 
+import { hasMdfMarker, validateMdf, type MdfValidation } from "@/lib/mdf";
+
 export type HeadingInfo = {
   level: number;
   text: string;
@@ -45,6 +47,8 @@ export type StructureAnalysis = {
   headings: HeadingInfo[];
   warnings: ValidationWarning[];
   health: HealthScore;
+  // Set when the document declares an mdf_version; errors carry line numbers.
+  mdf?: MdfValidation;
   aiReadability: {
     score: number;
     issues: string[];
@@ -56,10 +60,11 @@ export type StructureAnalysis = {
  * Analyzes markdown structure and returns comprehensive analysis
  */
 export function analyzeMarkdownStructure(markdown: string): StructureAnalysis {
-  const sections = extractSections(markdown);
+  const mdf = hasMdfMarker(markdown) ? validateMdf(markdown) : undefined;
+  const sections = extractSections(markdown, mdf);
   const metrics = calculateMetrics(markdown);
   const headings = extractHeadings(markdown);
-  const warnings = validateStructure(markdown, sections, metrics);
+  const warnings = validateStructure(markdown, sections, metrics, mdf);
   const health = calculateHealthScore(sections, metrics, warnings);
   const aiReadability = analyzeAIReadability(markdown, sections, metrics);
 
@@ -69,6 +74,7 @@ export function analyzeMarkdownStructure(markdown: string): StructureAnalysis {
     headings,
     warnings,
     health,
+    mdf,
     aiReadability,
   };
 }
@@ -76,9 +82,20 @@ export function analyzeMarkdownStructure(markdown: string): StructureAnalysis {
 /**
  * Extract and identify MDF sections
  */
-function extractSections(markdown: string): MDFSections {
+function extractSections(markdown: string, mdf?: MdfValidation): MDFSections {
   const lines = markdown.toLowerCase();
 
+  // A valid versioned document has every section by definition.
+  if (mdf?.valid) {
+    return {
+      hasFrontmatter: /^---[\s\S]*?---/.test(markdown),
+      hasTitle: true,
+      hasUrl: true,
+      hasContent: true,
+      hasMetadata: true,
+    };
+  }
+
   return {
     hasFrontmatter: /^---[\s\S]*?---/.test(markdown),
     hasTitle: /^#\s+.+/m.test(markdown),
@@ -140,10 +157,19 @@ function extractHeadings(markdown: string): HeadingInfo[] {
 function validateStructure(
   markdown: string,
   sections: MDFSections,
-  metrics: ContentMetrics
+  metrics: ContentMetrics,
+  mdf?: MdfValidation
 ): ValidationWarning[] {
   const warnings: ValidationWarning[] = [];
 
+  for (const issue of mdf?.errors ?? []) {
+    warnings.push({
+      severity: "error",
+      message: `Line ${issue.line}: ${issue.message}`,
+      section: "MDF",
+    });
+  }
+
   // Critical sections
   if (!sections.hasTitle) {
     warnings.push({
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { ExtractionError } from "@/lib/extraction-error";
+import { renderMarkdownHtml } from "@/lib/markdown-html";
+import { extractFromText, textSourceKind } from "@/lib/text-extractor";
+
+describe("textSourceKind", () => {
+  it.each([
+    ["text/markdown; charset=utf-8", "https://example.com/readme", "markdown"],
+    ["text/x-markdown", "https://example.com/readme", "markdown"],
+    ["text/plain", "https://example.com/docs/README.md", "markdown"],
+    ["text/plain", "https://example.com/notes.markdown?raw=1", "markdown"],
+    ["text/plain; charset=iso-8859-1", "https://example.com/notes.txt", "text"],
+    ["text/plain", "https://example.com/md", "text"],
+    ["application/json", "https://example.com/api", "json"],
+    ["application/ld+json", "https://example.com/api", "json"],
+    ["Application/Problem+JSON; charset=utf-8", "https://example.com/api", "json"],
+    ["text/json", "https://example.com/data", "json"],
+  ])("classifies %s at %s", (contentType, url, kind) => {
+    expect(textSourceKind(contentType, url)).toBe(kind);
+  });
+
+  it("leaves HTML, PDFs and other types to other extractors", () => {
+    expect(textSourceKind("text/html", "https://example.com/readme.md")).toBeUndefined();
+    expect(textSourceKind("application/pdf", "https://example.com/a.pdf")).toBeUndefined();
+    expect(textSourceKind("", "https://example.com/readme.md")).toBeUndefined();
+    expect(textSourceKind("application/jsonp", "https://example.com/api")).toBeUndefined();
+  });
+});
+
+describe("extractFromText plain text", () => {
+  const text = [
+    "Release notes",
+    "=============",
+    "",
+    "Fixed *bold* and [links](x) with <img src=x onerror=alert(1)> & more",
+    "# wrapped, not a heading",
+    "",
+    "- one",
+    "2. two",
+    "",
+    "    code <b>",
+    "    more",
+  ].join("\n");
+  const result = extractFromText("text", text, "https://example.com/notes.txt");
+
+  it("takes a short first line as the title", () => {
+    expect(result.title).toBe("Release notes");
+    expect(result.metadata.contentType).toBe("text");
+  });
+
+  it("escapes Markdown syntax, HTML and entities in paragraphs", () => {
+    expect(result.markdown.split("\n\n")[0]).toBe(
+      "Fixed \\*bold\\* and \\[links\\](x) with \\<img src=x onerror=alert(1)> \\& more # wrapped, not a heading"
+    );
+    expect(renderMarkdownHtml(result.markdown)).toContain(
+      "&lt;img src=x onerror=alert(1)&gt; &amp; more # wrapped"
+    );
+  });
+
+  it("keeps lists and indented code", () => {
+    expect(result.markdown.split("\n\n").slice(1)).toEqual([
+      "- one\n- two",
+      "```\ncode <b>\nmore\n```",
+    ]);
+  });
+
+  it("titles a document without a heading line from its URL", () => {
+    const long = "word ".repeat(40).trim();
+    const untitled = extractFromText("text", long, "https://example.com/files/change-log.txt");
+    expect(untitled.title).toBe("change log");
+    expect(untitled.markdown).toBe(long);
+  });
+});
+
+describe("extractFromText JSON", () => {
+  it("summarises objects and fences each top-level key", () => {
+    const result = extractFromText(
+      "json",
+      JSON.stringify({ info: { title: "Pets API" }, paths: { "/pets": {} }, "<x>": "```" }),
+      "https://example.com/openapi.json"
+    );
+    expect(result.title).toBe("Pets API");
+    expect(result.markdown).toBe(
+      [
+        "## Summary",
+        "- Object with 3 keys\n- `info`: object (1 key)\n- `paths`: object (1 key)\n- `<x>`: string",
+        "## Data",
+        "### info",
+        '```json\n{\n  "title": "Pets API"\n}\n```',
+        "### paths",
+        '```json\n{\n  "/pets": {}\n}\n```',
+        "### \\<x>",
+        '````json\n"```"\n````',
+      ].join("\n\n")
+    );
+  });
+
+  it("fences arrays as one block and titles them from the URL", () => {
+    const result = extractFromText("json", '[1, {"a": 1}]', "https://example.com/data/list.json");
+    expect(result.title).toBe("list");
+    expect(result.markdown).toContain("- Array of 2 items (number, object)\n- Item fields: `a`");
+    expect(result.markdown).toContain('```json\n[\n  1,\n  {\n    "a": 1\n  }\n]\n```');
+  });
+
+  it("rejects JSON that does not parse", () => {
+    expect(() => extractFromText("json", "{nope", "https://example.com/a.json")).toThrow(
+      ExtractionError
+    );
+  });
+});
+
+describe("extractFromText Markdown", () => {
+  it("reads frontmatter and lifts a matching H1 into the title", () => {
+    const result = extractFromText(
+      "markdown",
+      "---\ntitle: Guide\nauthor: Ann\ntags: [a, b]\ndate: 2024-01-02\n---\n# Guide\n\nBody  \nnext\n\n```js\nconst a = 1;\n",
+      "https://example.com/guide.md"
+    );
+    expect(result.title).toBe("Guide");
+    expect(result.markdown).toBe("Body\\\nnext\n\n```js\nconst a = 1;\n\n```");
+    expect(result.metadata).toMatchObject({
+      author: "Ann",
+      published: "2024-01-02T00:00:00.000Z",
+      primaryTopics: ["a", "b"],
+      entities: ["Ann"],
+    });
+  });
+
+  it("falls back to placeholder content for empty documents", () => {
+    expect(extractFromText("markdown", "", "https://example.com/empty.md").markdown).toMatch(
+      /No extractable content/
+    );
+  });
+});
@@ -0,0 +1,320 @@
+import matter from "gray-matter";
+import TurndownService from "turndown";
+import { cleanText, titleFromUrl } from "@/lib/document-text";
+import type { ExtractedMetadata, ExtractionResult } from "@/lib/extractor";
+import { ExtractionError } from "@/lib/extraction-error";
+
+// `markdown` is passed through, `text` is wrapped into paragraphs and `json`
+// is rendered as fenced blocks under a summary.
+export type TextSourceKind = "markdown" | "text" | "json";
+
+const MAX_TITLE_LENGTH = 120;
+// Objects with more top-level keys than this are shown as one block.
+const MAX_JSON_SECTIONS = 40;
+const MAX_SUMMARY_KEYS = 20;
+const LIST_ITEM = /^\s*(?:[-*+•]|\d+[.)])\s+/;
+
+const FALLBACK_CONTENT = "*No extractable content—the document is empty.*";
+
+// Only `escape` is used; it backslash-escapes Markdown syntax in plain text.
+const escaper = new TurndownService();
+
+/**
+ * Classifies a response as Markdown, plain text or JSON by Content-Type.
+ * Markdown served as `text/plain` is recognized by a `.md` or `.markdown` path.
+ */
+export function textSourceKind(contentType: string, url: string): TextSourceKind | undefined {
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  if (mimeType === "text/markdown" || mimeType === "text/x-markdown") {
+    return "markdown";
+  }
+  if (/^(application|text)\/([\w.-]+\+)?json$/.test(mimeType)) {
+    return "json";
+  }
+  if (mimeType === "text/plain") {
+    return /\.(md|markdown)$/i.test(new URL(url).pathname) ? "markdown" : "text";
+  }
+  return undefined;
+}
+
+/**
+ * Turns a decoded Markdown, plain-text or JSON document into the MDF result
+ * shape. Throws ExtractionError (400) for JSON that does not parse.
+ */
+export function extractFromText(
+  kind: TextSourceKind,
+  text: string,
+  finalUrl: string,
+  encoding?: string
+): ExtractionResult {
+  const document =
+    kind === "markdown"
+      ? fromMarkdown(text)
+      : kind === "json"
+        ? fromJson(text)
+        : fromPlainText(text);
+
+  const metadata: ExtractedMetadata = {
+    canonical: finalUrl,
+    contentType: kind,
+    encoding,
+    primaryTopics: [],
+    entities: [],
+    ...document.metadata,
+  };
+
+  return {
+    title: document.title ?? titleFromUrl(finalUrl),
+    url: finalUrl,
+    canonical: finalUrl,
+    markdown: document.markdown || FALLBACK_CONTENT,
+    metadata,
+  };
+}
+
+type TextDocument = {
+  title?: string;
+  markdown: string;
+  metadata?: Partial<ExtractedMetadata>;
+};
+
+function fromMarkdown(text: string): TextDocument {
+  const { data, content } = readFrontmatter(text);
+  const lines = normalizeMarkdown(content).split("\n");
+
+  // A leading H1 is the document title; MDF already renders it as `# <title>`.
+  let title = frontmatterString(data, "title");
+  const heading = lines[0]?.match(/^#\s+(.+?)(?:\s+#+)?$/);
+  if (heading && (!title || cleanText(heading[1]) === title)) {
+    title = cleanText(heading[1]);
+    lines.splice(0, 1);
+  }
+
+  const author = frontmatterString(data, "author");
+  return {
+    title,
+    markdown: lines.join("\n").trim(),
+    metadata: {
+      author,
+      published: frontmatterDate(data, "date") ?? frontmatterDate(data, "published"),
+      updated: frontmatterDate(data, "updated") ?? frontmatterDate(data, "lastmod"),
+      language: frontmatterString(data, "lang") ?? frontmatterString(data, "language"),
+      primaryTopics: frontmatterList(data, "tags") ?? frontmatterList(data, "keywords") ?? [],
+      entities: author ? [author] : [],
+    },
+  };
+}
+
+// Line endings are unified, trailing whitespace and blank runs are collapsed
+// outside fenced code, and an unclosed fence is closed so the MDF trailer
+// cannot end up inside it.
+function normalizeMarkdown(markdown: string): string {
+  const output: string[] = [];
+  let openFence: string | undefined;
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  lines.forEach((line, index) => {
+    const marker = line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+    if (openFence) {
+      output.push(line);
+      const closes = marker?.[0] === openFence[0] && marker.length >= openFence.length;
+      if (closes && !line.trim().slice(marker.length)) {
+        openFence = undefined;
+      }
+      return;
+    }
+    if (marker) {
+      openFence = marker;
+    }
+    const trimmed = line.trimEnd();
+    if (!trimmed && !output[output.length - 1]) {
+      return;
+    }
+    // Two trailing spaces inside a paragraph are a hard line break; keep it
+    // as a backslash break so trimming does not lose it.
+    const previous = output[output.length - 1];
+    if (trimmed && previous && !/^\s*#/.test(previous) && / {2,}$/.test(lines[index - 1])) {
+      output[output.length - 1] = previous.replace(/(\S)$/, "$1\\");
+    }
+    output.push(trimmed);
+  });
+  if (openFence) {
+    output.push(openFence);
+  }
+  return output.join("\n").trim();
+}
+
+// Blank lines separate paragraphs. Wrapped lines are joined, list-like lines
+// become list items and indented blocks are kept as code.
+function fromPlainText(text: string): TextDocument {
+  const blocks = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.replace(/^\s*\n|\s+$/g, ""))
+    .filter(Boolean);
+
+  // A short first line on its own, optionally underlined, reads as a title.
+  let title = cleanText(blocks[0]?.match(/^(.+)(?:\n[=-]{3,})?$/)?.[1]);
+  if (title && title.length <= MAX_TITLE_LENGTH) {
+    blocks.shift();
+  } else {
+    title = undefined;
+  }
+
+  const markdown = blocks.map((block) => {
+    const lines = block.split("\n");
+    if (lines.every((line) => /^(\t| {4})/.test(line) || !line.trim())) {
+      return fence(dedent(lines).join("\n"));
+    }
+    if (lines.every((line) => LIST_ITEM.test(line))) {
+      return lines
+        .map((line) => `- ${escapeText(cleanText(line.replace(LIST_ITEM, "")) ?? "")}`)
+        .join("\n");
+    }
+    return escapeText(lines.map((line) => line.trim()).join(" "));
+  });
+
+  return { title, markdown: markdown.join("\n\n") };
+}
+
+function fromJson(text: string): TextDocument {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new ExtractionError("Source JSON could not be parsed.", 400);
+  }
+
+  const sections = [
+    "## Summary",
+    summarizeJson(value)
+      .map((line) => `- ${line}`)
+      .join("\n"),
+    "## Data",
+  ];
+  if (isObject(value) && Object.keys(value).length <= MAX_JSON_SECTIONS) {
+    for (const [key, entry] of Object.entries(value)) {
+      sections.push(
+        `### ${escapeText(key) || '""'}`,
+        fence(JSON.stringify(entry, null, 2), "json")
+      );
+    }
+  } else {
+    sections.push(fence(JSON.stringify(value, null, 2), "json"));
+  }
+
+  // OpenAPI documents carry `info.title`; many others a top-level title or name.
+  const root = isObject(value) ? value : {};
+  const info = isObject(root.info) ? root.info : {};
+  const title = [info.title, root.title, root.name]
+    .map((candidate) => (typeof candidate === "string" ? cleanText(candidate) : undefined))
+    .find(Boolean);
+
+  return { title, markdown: sections.join("\n\n") };
+}
+
+function summarizeJson(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    const types = Array.from(new Set(value.map(jsonType)));
+    const lines = [
+      `Array of ${value.length} item${value.length === 1 ? "" : "s"}` +
+        (types.length ? ` (${types.join(", ")})` : ""),
+    ];
+    const objects = value.filter(isObject);
+    if (objects.length) {
+      const keys = Array.from(new Set(objects.flatMap((item) => Object.keys(item))));
+      lines.push(`Item fields: ${formatKeys(keys)}`);
+    }
+    return lines;
+  }
+  if (isObject(value)) {
+    const keys = Object.keys(value);
+    return [
+      `Object with ${keys.length} key${keys.length === 1 ? "" : "s"}`,
+      ...keys.slice(0, MAX_SUMMARY_KEYS).map((key) => `${formatKey(key)}: ${describeJson(value[key])}`),
+      ...(keys.length > MAX_SUMMARY_KEYS ? [`…and ${keys.length - MAX_SUMMARY_KEYS} more`] : []),
+    ];
+  }
+  return [`Single ${jsonType(value)} value`];
+}
+
+function describeJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `array (${value.length} item${value.length === 1 ? "" : "s"})`;
+  }
+  if (isObject(value)) {
+    const count = Object.keys(value).length;
+    return `object (${count} key${count === 1 ? "" : "s"})`;
+  }
+  return jsonType(value);
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function formatKeys(keys: string[]): string {
+  const shown = keys.slice(0, MAX_SUMMARY_KEYS).map(formatKey).join(", ");
+  return keys.length > MAX_SUMMARY_KEYS ? `${shown}, …` : shown;
+}
+
+function formatKey(key: string): string {
+  return key ? `\`${key}\`` : '""';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// The fence is made longer than any backtick run inside the code.
+function fence(code: string, language = ""): string {
+  const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${language}\n${code}\n${marker}`;
+}
+
+// Turndown leaves `<` and `&` alone, which Markdown would read as raw HTML
+// and entities.
+function escapeText(text: string): string {
+  return escaper.escape(text).replace(/[<&]/g, "\\$&");
+}
+
+function dedent(lines: string[]): string[] {
+  return lines.map((line) => line.replace(/^(\t| {4})/, ""));
+}
+
+function readFrontmatter(text: string): { data: Record<string, unknown>; content: string } {
+  // Only plain `---` YAML blocks; gray-matter would evaluate `---js` headers.
+  if (!/^---[ \t]*\r?\n/.test(text)) {
+    return { data: {}, content: text };
+  }
+  try {
+    // Passing options keeps gray-matter from caching every document it sees.
+    const { data, content } = matter(text, { language: "yaml" });
+    return { data, content };
+  } catch {
+    return { data: {}, content: text };
+  }
+}
+
+function frontmatterString(data: Record<string, unknown>, key: string): string | undefined {
+  const value = data[key];
+  return typeof value === "string" || typeof value === "number" ? cleanText(String(value)) : undefined;
+}
+
+function frontmatterDate(data: Record<string, unknown>, key: string): string | undefined {
+  const value = data[key];
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value.toISOString();
+  }
+  return frontmatterString(data, key);
+}
+
+function frontmatterList(data: Record<string, unknown>, key: string): string[] | undefined {
+  const value = data[key];
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  const list = items.map((item) => cleanText(String(item))).filter((item) => item !== undefined);
+  return list.length ? Array.from(new Set(list)) : undefined;
+}
@@ -1,11 +1,108 @@
 import { auth } from "./auth";
-import { NextResponse } from "next/server";
+import type { Session } from "next-auth";
+import { NextResponse, type NextRequest } from "next/server";
+import { clientIpFromHeaders } from "@/lib/bot-ip-ranges";
+import { resolveBotPolicy } from "@/lib/bot-policy";
+import { getMirrorValidators, isNotModified, mirrorCacheHeaders } from "@/lib/mirror-cache";
+import {
+  mirrorRewritePath,
+  mirrorSiteFromHost,
+  requestHost,
+  sourceMirrorRewritePath,
+  type MirrorRewrite,
+} from "@/lib/mirror-host";
+import { resolveHostedSource } from "@/lib/mirror-source";
 
 export const runtime = "nodejs";
 
-export default auth((req) => {
+export default auth(async (req) => {
+  const host = requestHost(req.headers);
+  const accept = req.headers.get("accept");
+
+  // Mirror pages on ai.<domain> never need a session; anything else the app
+  // serves there keeps its login check.
+  const mirrorSite = mirrorSiteFromHost(host);
+  if (mirrorSite) {
+    const rewrite = mirrorRewritePath(mirrorSite, req.nextUrl.pathname, accept);
+    if (!rewrite) {
+      return loginRedirect(req) ?? passThrough(req);
+    }
+    const response = await serveMirror(req, rewrite, tagRequest(req.headers));
+    response.headers.set("Vary", "Accept");
+    return response;
+  }
+
+  // Registered source domains are bifurcated by User-Agent.
+  const decision = resolveBotPolicy(
+    host,
+    req.headers.get("user-agent"),
+    clientIpFromHeaders(req.headers)
+  );
+  if (decision) {
+    let response: NextResponse;
+    const rewrite =
+      decision.policy === "mirror"
+        ? mirrorRewritePath(decision.site, req.nextUrl.pathname, accept)
+        : undefined;
+    if (decision.policy === "block") {
+      response = NextResponse.json(
+        { error: `${decision.bot?.name ?? "This agent"} is not allowed on ${decision.site}.` },
+        { status: 403 }
+      );
+    } else if (rewrite) {
+      response = await serveMirror(req, rewrite, tagRequest(req.headers, decision.verification));
+    } else {
+      // Pass-through traffic is served by the app itself, so its routes stay protected.
+      response =
+        loginRedirect(req) ??
+        NextResponse.next({
+          request: { headers: tagRequest(req.headers, decision.verification) },
+        });
+    }
+    // Humans and bots get different responses for the same URL.
+    response.headers.set("Vary", "User-Agent, Accept");
+    if (decision.bot) {
+      response.headers.set("X-Bot-Policy", `${decision.bot.name}; ${decision.policy}`);
+      response.headers.set("X-Bot-Verification", decision.verification ?? "unverified");
+    }
+    return response;
+  }
+
+  // /ai?source= serves Markdown and JSON representations from a route handler.
+  const sourceRewrite = sourceMirrorRewritePath(
+    req.nextUrl.pathname,
+    req.nextUrl.searchParams.get("source"),
+    accept
+  );
+  if (sourceRewrite) {
+    const response = await serveMirror(req, sourceRewrite, tagRequest(req.headers));
+    response.headers.set("Vary", "Accept");
+    return response;
+  }
+
+  return loginRedirect(req) ?? passThrough(req);
+});
+
+export const config = {
+  // Every path can be an AI mirror path, so only static assets are excluded.
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
+
+// Lets downstream handlers see the verification result. Client-sent values are
+// removed on every path, so only the middleware can set the header.
+function tagRequest(headers: Headers, verification?: string): Headers {
+  const tagged = new Headers(headers);
+  tagged.delete("x-bot-verification");
+  if (verification) {
+    tagged.set("x-bot-verification", verification);
+  }
+  return tagged;
+}
+
+// Protected routes send visitors without a session to the login page.
+function loginRedirect(req: NextRequest & { auth: Session | null }): NextResponse | undefined {
   const isLoggedIn = !!req.auth;
-  const isOnProtectedRoute = 
+  const isOnProtectedRoute =
     req.nextUrl.pathname === "/" ||
     req.nextUrl.pathname.startsWith("/feeds") ||
     req.nextUrl.pathname.startsWith("/ai-mirror") ||
@@ -14,15 +111,52 @@ export default auth((req) => {
   if (isOnProtectedRoute && !isLoggedIn) {
     return NextResponse.redirect(new URL("/login", req.url));
   }
-
   return undefined;
-});
+}
 
-export const config = {
-  matcher: [
-    "/",
-    "/feeds/:path*",
-    "/ai-mirror/:path*",
-    "/sitemap-preview/:path*",
-  ],
-};
+function passThrough(req: NextRequest): NextResponse {
+  return NextResponse.next({ request: { headers: tagRequest(req.headers) } });
+}
+
+/**
+ * Rewrites a request to its mirror route. HTML pages cannot answer
+ * conditional requests themselves, so their validators are checked here;
+ * the format route handlers do the same on their own.
+ */
+async function serveMirror(
+  req: NextRequest,
+  rewrite: MirrorRewrite,
+  requestHeaders?: Headers
+): Promise<NextResponse> {
+  const init = requestHeaders ? { request: { headers: requestHeaders } } : undefined;
+  if (rewrite.format !== "html") {
+    return NextResponse.rewrite(rewriteTarget(req, rewrite.path), init);
+  }
+
+  const source =
+    rewrite.source ??
+    (rewrite.site ? await resolveHostedSource(rewrite.site, rewrite.pathname ?? "/") : undefined);
+  const validators = source ? await getMirrorValidators(source, rewrite.format) : undefined;
+  if (!validators) {
+    return NextResponse.rewrite(rewriteTarget(req, rewrite.path), init);
+  }
+
+  const headers = mirrorCacheHeaders(validators.etag, validators.lastModified);
+  if (isNotModified(req.headers, validators.etag, validators.lastModified)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  const response = NextResponse.rewrite(rewriteTarget(req, rewrite.path), init);
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// Format routes carry their own query; page rewrites keep the original one.
+function rewriteTarget(req: NextRequest, rewritePath: string): URL {
+  const target = new URL(rewritePath, req.url);
+  if (!target.search) {
+    target.search = req.nextUrl.search;
+  }
+  return target;
+}